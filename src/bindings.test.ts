@@ -0,0 +1,53 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { overlay, skeleton } from './svelte.ts'
+import { flushLoadTools, installLayoutStub, isOverlayActive } from './testing.ts'
+import { vOverlay } from './vue.ts'
+
+describe('bindings', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('forces nested skeleton roots into fallback', () => {
+        document.body.innerHTML = '<div id="outer"><div id="inner"></div></div>'
+        const outer = document.querySelector<HTMLElement>('#outer')!
+        const inner = document.querySelector<HTMLElement>('#inner')!
+        const innerAction = skeleton(inner, { skDelay: '0' })
+        const outerAction = skeleton(outer, true)
+        assert.notEqual(inner.dataset.skId, outer.dataset.skId)
+        assert.deepEqual([outer.dataset.sk, inner.dataset.sk], ['true', 'true'])
+        assert.deepEqual([outer.inert, inner.inert], [true, true])
+
+        outerAction.update(false)
+        assert.deepEqual([outer.dataset.sk, inner.dataset.sk], ['false', 'false'])
+        innerAction.update({ when: true })
+        assert.deepEqual([outer.dataset.sk, inner.dataset.sk], ['false', 'true'])
+        assert.equal(inner.dataset.skDelay, undefined)
+
+        outerAction.destroy()
+        innerAction.destroy()
+        assert.equal(inner.inert, false)
+    })
+
+    it('syncs overlay options through actions and directives', async () => {
+        document.body.innerHTML = '<div style="width: 80px; height: 80px"></div><div style="width: 80px"></div>'
+        const [svelteHost, vueHost] = document.querySelectorAll('div')
+        const action = overlay(svelteHost, { when: true, ovMessage: 'Saving' })
+        vOverlay.mounted(vueHost, { value: true })
+        await flushLoadTools()
+        assert.deepEqual([isOverlayActive(svelteHost), isOverlayActive(vueHost)], [true, true])
+        assert.equal(svelteHost.dataset.ovMessage, 'Saving')
+
+        action.update(false)
+        vOverlay.updated(vueHost, { value: false })
+        await flushLoadTools()
+        assert.deepEqual([isOverlayActive(svelteHost), isOverlayActive(vueHost)], [false, false])
+        assert.equal(svelteHost.dataset.ovMessage, undefined)
+
+        action.destroy()
+        vOverlay.unmounted(vueHost)
+    })
+})
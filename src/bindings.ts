@@ -0,0 +1,139 @@
+import { injectOverlay, type OverlayOptions } from './overlay.ts'
+import { injectSkeleton, type SkeletonOptions } from './skeleton.ts'
+
+/**
+ * Skeleton binding parameters, a boolean is a shorthand for {@linkcode SkeletonBindingParams.when}.
+ */
+export type SkeletonBindingParams =
+    | boolean
+    | (Omit<SkeletonOptions, 'skId'> & {
+          /** Alternative to {@linkcode SkeletonOptions.sk} (higher priority). */
+          when?: boolean
+          /** Enable skeleton debug mode, only read when the binding is created. */
+          debug?: boolean
+      })
+
+/**
+ * Overlay binding parameters, a boolean is a shorthand for {@linkcode OverlayBindingParams.when}.
+ */
+export type OverlayBindingParams =
+    | boolean
+    | (OverlayOptions & {
+          /** Alternative to {@linkcode OverlayOptions.ov} (higher priority). */
+          when?: boolean
+      })
+
+/**
+ * Bound skeleton roots, used to force nested roots into fallback while an ancestor root is in fallback.
+ */
+const skeletonRoots = new Map<HTMLElement, { when: boolean; debug: boolean }>()
+
+/**
+ * Last generated skeleton subtree ID.
+ */
+let lastSkId = 0
+
+/**
+ * Check if {@linkcode element} or any bound ancestor skeleton root is in fallback.
+ *
+ * @param element Bound skeleton root.
+ */
+const inFallback = (element: HTMLElement): boolean => {
+    for (let root: HTMLElement | null = element; root; root = root.parentElement)
+        if (skeletonRoots.get(root)?.when) return true
+    return false
+}
+
+/**
+ * Sync `[data-sk]` and `inert` of {@linkcode element} and every bound skeleton root nested in it.
+ *
+ * @param element Bound skeleton root.
+ */
+const syncSkeletonRoots = (element: HTMLElement) =>
+    skeletonRoots.forEach(({ debug }, root) => {
+        if (!element.contains(root)) return
+        root.dataset.sk = `${inFallback(root)}`
+        root.inert = !debug && root.dataset.sk === 'true'
+    })
+
+/**
+ * Assign {@linkcode options} to {@linkcode element}'s `dataset`, removing the {@linkcode previous} options not set.
+ *
+ * @param element Element to update.
+ * @param options Options to assign.
+ * @param previous Previously assigned options.
+ */
+const assignDataset = (element: HTMLElement, options: object, previous: object) => {
+    Object.keys(previous)
+        .filter(key => !(key in options))
+        .forEach(key => delete element.dataset[key])
+    Object.assign(element.dataset, options)
+}
+
+/**
+ * Bind {@linkcode element} as a skeleton root using {@linkcode injectSkeleton}.
+ *
+ * Every root gets a unique `[data-sk-id]`, so ancestor roots do not generate skeletons for nested roots content.
+ * Nested bound roots are forced into fallback while an ancestor bound root is in fallback, like `SkeletonContext`.
+ * The element is also made `inert` while in fallback, unless in debug mode.
+ *
+ * An object is returned to update the parameters and to destroy the binding.
+ *
+ * @param element Skeleton root element.
+ * @param params {@linkcode SkeletonBindingParams}.
+ */
+export const bindSkeleton = (element: HTMLElement, params: SkeletonBindingParams) => {
+    const { debug = false } = typeof params === 'boolean' ? {} : params
+    const skId = `sk${++lastSkId}`
+    let previous: SkeletonOptions = {}
+    const update = (params: SkeletonBindingParams) => {
+        const { when, debug: _, ...options } = typeof params === 'boolean' ? { when: params } : params
+        assignDataset(element, { ...options, skId }, previous)
+        previous = { ...options, skId }
+        skeletonRoots.set(element, { when: when ?? options.sk === 'true', debug })
+        syncSkeletonRoots(element)
+    }
+    const cleanup = injectSkeleton(element, debug)
+    update(params)
+
+    return {
+        update,
+        destroy: () => {
+            cleanup()
+            skeletonRoots.delete(element)
+            element.inert = false
+            syncSkeletonRoots(element)
+        },
+    }
+}
+
+/**
+ * Bind an overlay to {@linkcode element} using {@linkcode injectOverlay}.
+ *
+ * The element is also made `inert` while the overlay is enabled, unless it has a cancel button.
+ *
+ * An object is returned to update the parameters and to destroy the binding.
+ *
+ * @param element Overlay host element.
+ * @param params {@linkcode OverlayBindingParams}.
+ */
+export const bindOverlay = (element: HTMLElement, params: OverlayBindingParams) => {
+    let previous: OverlayOptions = {}
+    const update = (params: OverlayBindingParams) => {
+        const { when, ...overlayOptions } = typeof params === 'boolean' ? { when: params } : params
+        const options: OverlayOptions = { ...overlayOptions, ov: `${when ?? overlayOptions.ov === 'true'}` }
+        assignDataset(element, options, previous)
+        previous = options
+        element.inert = options.ov === 'true' && !options.ovCancel
+    }
+    const cleanup = injectOverlay(element)
+    update(params)
+
+    return {
+        update,
+        destroy: () => {
+            cleanup()
+            element.inert = false
+        },
+    }
+}
@@ -0,0 +1,23 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { flushLoadTools, getSkeletonRects, installLayoutStub } from './testing.ts'
+
+describe('elements', () => {
+    let uninstall: () => void
+
+    beforeEach(async () => {
+        uninstall = installLayoutStub()
+        // Elements are defined on import, which adopts a stylesheet provided by the layout stub
+        await import('./elements.ts')
+    })
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('generates skeletons for sk-root content, not the root itself', async () => {
+        document.body.innerHTML = '<sk-root loading style="width: 80px; height: 100px"><p>Text</p></sk-root>'
+        const root = document.querySelector('sk-root')!
+        await flushLoadTools()
+        assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 32, 16)])
+        assert.equal(root.dataset.sk, 'true')
+    })
+})
@@ -0,0 +1,178 @@
+import { injectOverlay, type OverlayOptions } from './overlay.ts'
+import { injectSkeleton, type SkeletonOptions } from './skeleton.ts'
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'sk-root': SkeletonRootElement
+        'sk-overlay': OverlayElement
+    }
+}
+
+/**
+ * {@linkcode SkeletonRootElement} observed attributes mapped to {@linkcode SkeletonOptions}.
+ */
+const skeletonAttributes = {
+    loading: 'sk',
+    'skeleton-id': 'skId',
+    delay: 'skDelay',
+    min: 'skMin',
+    'fade-out': 'skOut',
+    'fade-out-mode': 'skOutMode',
+} as const satisfies { [_ in string]: keyof SkeletonOptions }
+
+/**
+ * {@linkcode OverlayElement} observed attributes mapped to {@linkcode OverlayOptions}.
+ */
+const overlayAttributes = {
+    active: 'ov',
+    'fade-in': 'ovIn',
+    'fade-out': 'ovOut',
+    'z-index': 'ovZ',
+    delay: 'ovDelay',
+    min: 'ovMin',
+    progress: 'ovProgress',
+    message: 'ovMessage',
+    cancel: 'ovCancel',
+} as const satisfies { [_ in string]: keyof OverlayOptions }
+
+/**
+ * Copy {@linkcode element}'s observed attributes into its `dataset`, boolean options use attribute presence.
+ *
+ * @param element Custom element.
+ * @param attributes Observed attributes mapped to `dataset` options.
+ * @param booleans Boolean attributes.
+ */
+const syncDataset = (element: HTMLElement, attributes: { [_ in string]: string }, booleans: string[]) =>
+    Object.entries(attributes).forEach(([attribute, option]) => {
+        const value = element.getAttribute(attribute)
+        if (booleans.includes(attribute)) element.dataset[option] = `${value !== null}`
+        else if (value !== null) element.dataset[option] = value
+        else delete element.dataset[option]
+    })
+
+/**
+ * `<sk-root>` custom element, generates skeletons for its content using {@linkcode injectSkeleton}.
+ *
+ * Observed attributes:
+ * - `loading`: Display skeletons (`data-sk`), content is also made `inert`.
+ * - `debug`: Enable skeleton debug mode.
+ * - `skeleton-id`: Skeleton subtree ID (`data-sk-id`).
+ * - `delay`: Delay before displaying skeletons (`data-sk-delay`).
+ * - `min`: Minimum skeletons display time (`data-sk-min`).
+ * - `fade-out`: Handoff duration from skeletons to content (`data-sk-out`).
+ * - `fade-out-mode`: Handoff transition mode (`data-sk-out-mode`).
+ *
+ * Skeletons are removed when the element is disconnected.
+ */
+export class SkeletonRootElement extends HTMLElement {
+    static observedAttributes = [...Object.keys(skeletonAttributes), 'debug']
+
+    #cleanup?: () => void
+
+    get loading() {
+        return this.hasAttribute('loading')
+    }
+
+    set loading(value: boolean) {
+        this.toggleAttribute('loading', value)
+    }
+
+    get debug() {
+        return this.hasAttribute('debug')
+    }
+
+    set debug(value: boolean) {
+        this.toggleAttribute('debug', value)
+    }
+
+    connectedCallback() {
+        this.#sync()
+        this.#cleanup = injectSkeleton(this, this.debug)
+    }
+
+    disconnectedCallback() {
+        this.#cleanup?.()
+        this.#cleanup = undefined
+    }
+
+    attributeChangedCallback(name: string) {
+        this.#sync()
+        if (name !== 'debug' || !this.#cleanup) return
+        this.disconnectedCallback()
+        this.connectedCallback()
+    }
+
+    #sync() {
+        syncDataset(this, skeletonAttributes, ['loading'])
+        this.inert = !this.debug && this.loading
+    }
+}
+
+/**
+ * `<sk-overlay>` custom element, covers its content with an overlay using {@linkcode injectOverlay}.
+ *
+ * Observed attributes:
+ * - `active`: Display overlay (`data-ov`), content is also made `inert`.
+ * - `fade-in`: Fade in duration (`data-ov-in`).
+ * - `fade-out`: Fade out duration (`data-ov-out`).
+ * - `z-index`: Overlay z-index (`data-ov-z`).
+ * - `delay`: Delay before displaying the overlay (`data-ov-delay`).
+ * - `min`: Minimum overlay display time (`data-ov-min`).
+ * - `progress`: Progress ratio or `indeterminate` (`data-ov-progress`).
+ * - `message`: Message text (`data-ov-message`).
+ * - `cancel`: Cancel button label (`data-ov-cancel`), content is not made `inert` if set.
+ *
+ * The overlay is removed when the element is disconnected.
+ */
+export class OverlayElement extends HTMLElement {
+    static observedAttributes = Object.keys(overlayAttributes)
+
+    #cleanup?: () => void
+
+    get active() {
+        return this.hasAttribute('active')
+    }
+
+    set active(value: boolean) {
+        this.toggleAttribute('active', value)
+    }
+
+    connectedCallback() {
+        this.#sync()
+        this.#cleanup = injectOverlay(this)
+    }
+
+    disconnectedCallback() {
+        this.#cleanup?.()
+        this.#cleanup = undefined
+    }
+
+    attributeChangedCallback() {
+        this.#sync()
+    }
+
+    #sync() {
+        syncDataset(this, overlayAttributes, ['active'])
+        this.inert = this.active && !this.dataset.ovCancel
+    }
+}
+
+/**
+ * Custom elements stylesheet.
+ */
+const stylesheet = new CSSStyleSheet()
+
+/**
+ * Register `<sk-root>` and `<sk-overlay>` custom elements, elements already defined are skipped.
+ *
+ * Both elements are also styled as `display: block` through an adopted stylesheet.
+ */
+export const defineElements = () => {
+    if (!customElements.get('sk-root')) customElements.define('sk-root', SkeletonRootElement)
+    if (!customElements.get('sk-overlay')) customElements.define('sk-overlay', OverlayElement)
+    if (document.adoptedStyleSheets.some(sheet => sheet === stylesheet)) return
+    stylesheet.replaceSync('sk-root, sk-overlay { display: block }')
+    document.adoptedStyleSheets = [...document.adoptedStyleSheets, stylesheet]
+}
+
+defineElements()
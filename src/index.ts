@@ -1,2 +1,5 @@
+export * from './loading.ts'
 export * from './overlay.ts'
 export * from './skeleton.ts'
+export * from './theme.ts'
+export * from './tools.ts'
@@ -0,0 +1,269 @@
+import type { SkeletonOptions } from './skeleton.ts'
+
+/**
+ * Description of an element of an inspected skeleton root.
+ */
+export type InspectorDescription = {
+    /** Option layers, from lowest to highest precedence. */
+    layers: [name: string, options: SkeletonOptions | undefined][]
+    /** Resolved options. */
+    resolved: SkeletonOptions
+    /** Candidate status, includes the selector rule that excluded the element, if any. */
+    status: string
+}
+
+/**
+ * Skeleton root registered into the inspector, see {@linkcode inspectSkeleton}.
+ */
+export type InspectorRoot = {
+    /** Displayed skeletons and their source elements. */
+    skeletons: () => Iterable<readonly [skeleton: HTMLElement, source: HTMLElement]>
+    /** Describe an element of the root. */
+    describe: (element: HTMLElement) => InspectorDescription
+}
+
+/**
+ * Options editable in the inspector, `select` options are listed.
+ */
+const editable: { [_ in keyof SkeletonOptions]?: string[] } = {
+    skT: ['', 'none', 'hide', 'rect', 'pill', 'round', 'text', 'input', 'button', 'avatar', 'icon', 'media'],
+    skR: ['', 'xs', 's', 'm', 'l', 'xl'],
+    skO: undefined,
+    skSx: undefined,
+    skSy: undefined,
+    skTx: undefined,
+    skTy: undefined,
+    skW: undefined,
+    skH: undefined,
+    skZ: undefined,
+}
+
+/**
+ * Inspector panel stylesheet, scoped by the panel shadow root.
+ */
+const css = `
+    :host { all: initial; }
+    .highlight { position: fixed; pointer-events: none; outline: 2px solid #2F80ED; background: #2F80ED26;
+        z-index: 2147483646; }
+    .panel { position: fixed; right: 8px; bottom: 8px; width: 320px; max-height: 60vh; overflow: auto; padding: 8px;
+        z-index: 2147483647; font: 12px/1.4 monospace; color: #E6EBEE; background: #1A2126F0; border-radius: 4px; }
+    .panel p, .panel pre { margin: 0 0 6px; white-space: pre-wrap; word-break: break-all; }
+    .panel label { display: grid; grid-template-columns: 96px 1fr; gap: 4px; margin-bottom: 2px; }
+    .panel input, .panel select, .panel button { font: inherit; }
+`
+
+/**
+ * Inspector state, shared by every inspected root.
+ */
+const inspector = {
+    /** Inspected roots. */
+    roots: new Map<HTMLElement, InspectorRoot>(),
+    /** Panel host, created when the first root is inspected. */
+    host: undefined as HTMLElement | undefined,
+    /** Selected element and its root. */
+    selected: undefined as { element: HTMLElement; root: InspectorRoot } | undefined,
+    /** Selection is pinned, hovering does not change it. */
+    pinned: false,
+}
+
+/**
+ * Create an element with {@linkcode properties} and {@linkcode children}.
+ *
+ * @param tag Element tag.
+ * @param properties Element properties.
+ * @param children Element children.
+ */
+const h = <T extends keyof HTMLElementTagNameMap>(
+    tag: T,
+    properties: Partial<HTMLElementTagNameMap[T]> = {},
+    ...children: (Node | string)[]
+): HTMLElementTagNameMap[T] => {
+    const element = Object.assign(document.createElement(tag), properties)
+    element.append(...children)
+    return element
+}
+
+/**
+ * Format {@linkcode options} as `key=value` pairs.
+ *
+ * @param options Options to format.
+ */
+const formatOptions = (options: SkeletonOptions = {}) =>
+    Object.entries(options)
+        .filter(([key, value]) => key.startsWith('sk') && value !== undefined)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(' ') || '-'
+
+/**
+ * Get the Solid `attr:data-*` attributes of {@linkcode element}'s skeleton options.
+ *
+ * @param element Source element.
+ */
+const copyText = (element: HTMLElement) =>
+    [...element.attributes]
+        .filter(({ name }) => name.startsWith('data-sk-') && name !== 'data-sk-id')
+        .map(({ name, value }) => `attr:${name}="${value}"`)
+        .join(' ')
+
+/**
+ * Render the selected element description, the editor is only rendered again if {@linkcode editor} is set.
+ *
+ * @param editor Render the option editor.
+ */
+const render = (editor: boolean) => {
+    const shadow = inspector.host?.shadowRoot
+    const { element, root } = inspector.selected ?? {}
+    if (!shadow || !element || !root) return
+    const rect = element.getBoundingClientRect()
+    const highlight = shadow.querySelector<HTMLElement>('.highlight')!
+    Object.assign(highlight.style, {
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+    })
+    const { layers, resolved, status } = root.describe(element)
+    const id = element.id ? `#${element.id}` : ''
+    shadow.querySelector('.info')!.replaceChildren(
+        h('p', {
+            textContent: `<${element.localName}${id}>${inspector.pinned ? ' (pinned, Esc to release)' : ''}`,
+        }),
+        h('p', { className: 'status', textContent: status }),
+        ...layers.map(([name, options]) => h('p', { textContent: `${name}: ${formatOptions(options)}` })),
+        h('p', { textContent: `resolved: ${formatOptions(resolved)}` }),
+    )
+    const text = copyText(element)
+    shadow
+        .querySelector('.copy')!
+        .replaceChildren(
+            h('pre', { textContent: text || '-' }),
+            h('button', { type: 'button', textContent: 'Copy', onclick: () => navigator.clipboard?.writeText(text) }),
+        )
+    if (!editor) return
+    const fields = Object.entries(editable).map(([key, values]) => {
+        const option = key as keyof SkeletonOptions
+        const field: HTMLSelectElement | HTMLInputElement = values
+            ? h('select', {}, ...values.map(value => h('option', { value, textContent: value || '(inherit)' })))
+            : h('input', { placeholder: resolved[option] ?? '' })
+        const attribute = `data-${option.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)}`
+        field.name = option
+        field.value = element.getAttribute(attribute) ?? ''
+        field.oninput = () => {
+            if (field.value) element.setAttribute(attribute, field.value)
+            else element.removeAttribute(attribute)
+            render(false)
+        }
+        return h('label', {}, option, field)
+    })
+    shadow.querySelector('.editor')!.replaceChildren(...fields)
+}
+
+/**
+ * Select {@linkcode element} of {@linkcode root}.
+ *
+ * @param element Selected element.
+ * @param root Selected element root.
+ * @param pinned Pin the selection.
+ */
+const select = (element: HTMLElement, root: InspectorRoot, pinned: boolean) => {
+    const changed = inspector.selected?.element !== element
+    inspector.selected = { element, root }
+    inspector.pinned = pinned
+    render(changed || pinned)
+}
+
+/**
+ * Find the inspected element at a pointer {@linkcode event}, skeletons are hit first.
+ *
+ * @param event Pointer event.
+ */
+const findTarget = (event: MouseEvent) => {
+    if (!(event.target instanceof HTMLElement) || event.composedPath().includes(inspector.host!)) return
+    for (const root of inspector.roots.values())
+        for (const [skeleton, source] of root.skeletons()) {
+            const { left, top, right, bottom } = skeleton.getBoundingClientRect()
+            const { clientX: x, clientY: y } = event
+            if (x >= left && x <= right && y >= top && y <= bottom) return { element: source, root }
+        }
+    const roots = [...inspector.roots].filter(([element]) => element.contains(event.target as Node))
+    const [, root] =
+        roots.find(([element]) => roots.every(([other]) => other === element || !element.contains(other))) ?? []
+    return root ? { element: event.target, root } : undefined
+}
+
+const onPointerMove = (event: PointerEvent) => {
+    if (inspector.pinned) return
+    const target = findTarget(event)
+    if (target) select(target.element, target.root, false)
+}
+
+const onClick = (event: MouseEvent) => {
+    if (!event.altKey) return
+    const target = findTarget(event)
+    if (!target) return
+    event.preventDefault()
+    event.stopPropagation()
+    select(target.element, target.root, true)
+}
+
+const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Escape' || !inspector.pinned) return
+    inspector.pinned = false
+    render(false)
+}
+
+/**
+ * Render the inspector panel again if the selected element belongs to {@linkcode root}, after its skeletons update.
+ *
+ * @param root Updated root.
+ */
+export const refreshInspector = (root: InspectorRoot) => void (inspector.selected?.root === root && render(false))
+
+/**
+ * Register a skeleton {@linkcode element} root into the debug inspector panel.
+ *
+ * The panel is shared by every inspected root. Hovering a skeleton, or an element of a root, highlights the source
+ * element and describes its option layers and candidate status, `Alt` + click pins the selection to edit its options.
+ * Edited options are set as `data-sk-*` attributes, so skeletons update live, and can be copied as Solid `attr:`
+ * attributes.
+ *
+ * A cleanup function is returned to unregister the root, the panel is removed with the last root.
+ *
+ * @param element Skeleton root element.
+ * @param root Root skeletons and description.
+ */
+export const inspectSkeleton = (element: HTMLElement, root: InspectorRoot) => {
+    inspector.roots.set(element, root)
+    if (!inspector.host) {
+        const host = (inspector.host = h('div'))
+        host.dataset.skT = 'none'
+        host.dataset.skInspector = ''
+        host.attachShadow({ mode: 'open' }).append(
+            h('style', { textContent: css }),
+            h('div', { className: 'highlight' }),
+            h(
+                'section',
+                { className: 'panel' },
+                h('div', { className: 'info' }, h('p', { textContent: 'Hover a skeleton, Alt + click to pin' })),
+                h('div', { className: 'editor' }),
+                h('div', { className: 'copy' }),
+            ),
+        )
+        document.body.append(host)
+        document.addEventListener('pointermove', onPointerMove, { capture: true, passive: true })
+        document.addEventListener('click', onClick, { capture: true })
+        document.addEventListener('keydown', onKeyDown)
+    }
+
+    return () => {
+        inspector.roots.delete(element)
+        if (inspector.selected?.root === root) inspector.selected = undefined
+        if (inspector.roots.size) return
+        inspector.host?.remove()
+        inspector.host = undefined
+        inspector.pinned = false
+        document.removeEventListener('pointermove', onPointerMove, { capture: true })
+        document.removeEventListener('click', onClick, { capture: true })
+        document.removeEventListener('keydown', onKeyDown)
+    }
+}
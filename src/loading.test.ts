@@ -0,0 +1,83 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { withOverlay, withSkeleton } from './loading.ts'
+import { injectOverlay } from './overlay.ts'
+import { injectSkeleton } from './skeleton.ts'
+import { flushLoadTools, getSkeletonRects, installLayoutStub, isOverlayActive } from './testing.ts'
+
+const deferred = <T>() => {
+    let resolve!: (value: T) => void
+    let reject!: (reason: unknown) => void
+    const promise = new Promise<T>((...callbacks) => ([resolve, reject] = callbacks))
+    return { promise, resolve, reject }
+}
+
+describe('loading', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('displays the overlay while the task is in flight', async () => {
+        document.body.innerHTML = '<div style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const cleanup = injectOverlay(element)
+        const task = deferred<string>()
+
+        const result = withOverlay(element, task.promise)
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), true)
+
+        task.resolve('done')
+        assert.equal(await result, 'done')
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), false)
+        cleanup()
+    })
+
+    it('displays skeletons until the last concurrent task settles', async () => {
+        document.body.innerHTML = '<div style="width: 80px"><p>Text</p></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const cleanup = injectSkeleton(element)
+        const [first, second] = [deferred<void>(), deferred<void>()]
+
+        const results = [withSkeleton(element, first.promise), withSkeleton(element, () => second.promise)]
+        await flushLoadTools()
+        assert.equal(getSkeletonRects(element).length, 1)
+
+        first.reject(new Error('failed'))
+        await assert.rejects(results[0], /failed/)
+        assert.equal(element.dataset.sk, 'true')
+
+        second.resolve()
+        await results[1]
+        await flushLoadTools()
+        assert.equal(element.dataset.sk, 'false')
+        assert.equal(getSkeletonRects(element).length, 0)
+        cleanup()
+    })
+
+    it('stops tracking aborted tasks', async () => {
+        document.body.innerHTML = '<div></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const controller = new AbortController()
+        let received: AbortSignal | undefined
+
+        const result = withOverlay(element, signal => ((received = signal), deferred<void>().promise), {
+            signal: controller.signal,
+        })
+        assert.equal(received, controller.signal)
+        assert.equal(element.dataset.ov, 'true')
+
+        controller.abort('disposed')
+        await assert.rejects(result, reason => reason === 'disposed')
+        assert.equal(element.dataset.ov, 'false')
+
+        await assert.rejects(
+            withOverlay(element, Promise.resolve(), { signal: controller.signal }),
+            reason => reason === 'disposed',
+        )
+        assert.equal(element.dataset.ov, 'false')
+    })
+})
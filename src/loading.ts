@@ -0,0 +1,88 @@
+import { loadingStats, type LoadingStats } from './util.ts'
+
+export type { LoadingEventDetail, LoadingStats } from './util.ts'
+
+/**
+ * Loading task, either a promise or a function receiving the abort signal and returning a promise.
+ */
+export type LoadingTask<T> = PromiseLike<T> | ((signal?: AbortSignal) => PromiseLike<T> | T)
+
+/**
+ * In-flight tasks count of each element and loading option.
+ */
+const inFlight = new WeakMap<HTMLElement, { ov: number; sk: number }>()
+
+/**
+ * Enable {@linkcode element}'s {@linkcode option} while {@linkcode task} is in flight.
+ *
+ * The option is enabled by the first in-flight task and disabled when the last one settles or is aborted.
+ *
+ * @param element Element to toggle the loading option.
+ * @param option Loading `dataset` option.
+ * @param task Loading task.
+ * @param signal Abort signal, aborting stops tracking the task and rejects with the abort reason.
+ */
+const track = <T>(element: HTMLElement, option: 'ov' | 'sk', task: LoadingTask<T>, signal?: AbortSignal) => {
+    if (signal?.aborted) return Promise.reject<T>(signal.reason)
+    const counts = inFlight.get(element) ?? { ov: 0, sk: 0 }
+    inFlight.set(element, counts)
+    if (counts[option]++ === 0) element.dataset[option] = 'true'
+
+    let settled = false
+    const settle = () => {
+        if (settled) return
+        settled = true
+        if (--counts[option] === 0) element.dataset[option] = 'false'
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const abort = () => (settle(), reject(signal!.reason))
+        signal?.addEventListener('abort', abort, { once: true })
+        new Promise<T>(resolve => resolve(typeof task === 'function' ? task(signal) : task))
+            .then(resolve, reject)
+            .finally(() => (signal?.removeEventListener('abort', abort), settle()))
+    })
+}
+
+/**
+ * Display {@linkcode element}'s overlay while {@linkcode task} is in flight, through `[data-ov]`.
+ *
+ * Concurrent tasks on the same element are counted, the overlay is only hidden when the last one settles.
+ * The element must be listening for overlays, see `injectOverlay`.
+ *
+ * @param element Overlay host element.
+ * @param task Loading task.
+ * @param options.signal Abort signal, aborting stops tracking the task and rejects with the abort reason.
+ */
+export const withOverlay = <T>(element: HTMLElement, task: LoadingTask<T>, options?: { signal?: AbortSignal }) =>
+    track(element, 'ov', task, options?.signal)
+
+/**
+ * Display {@linkcode element}'s skeletons while {@linkcode task} is in flight, through `[data-sk]`.
+ *
+ * Concurrent tasks on the same element are counted, skeletons are only hidden when the last one settles.
+ * The element must be listening for skeletons, see `injectSkeleton`.
+ *
+ * @param element Skeleton root element.
+ * @param task Loading task.
+ * @param options.signal Abort signal, aborting stops tracking the task and rejects with the abort reason.
+ */
+export const withSkeleton = <T>(element: HTMLElement, task: LoadingTask<T>, options?: { signal?: AbortSignal }) =>
+    track(element, 'sk', task, options?.signal)
+
+/**
+ * Get loading statistics of each skeleton subtree ID (`data-sk-id`), for skeletons (`sk`) and overlays (`ov`).
+ *
+ * Statistics are aggregated from every injected skeleton root and overlay host since the page loaded, or since
+ * {@linkcode resetLoadingStats}. The returned object is a copy.
+ */
+export const getLoadingStats = (): { [skId in string]: { sk: LoadingStats; ov: LoadingStats } } =>
+    Object.fromEntries(loadingStats.entries().map(([skId, { sk, ov }]) => [skId, { sk: { ...sk }, ov: { ...ov } }]))
+
+/**
+ * Reset loading statistics, currently displayed loading states are still counted as active.
+ */
+export const resetLoadingStats = () =>
+    loadingStats.forEach(stats =>
+        Object.values(stats).forEach(kind => Object.assign(kind, { count: 0, total: 0, max: 0 })),
+    )
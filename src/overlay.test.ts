@@ -0,0 +1,279 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { getLoadingStats } from './loading.ts'
+import { acquireGlobalOverlay, injectOverlay } from './overlay.ts'
+import { flushLoadTools, installLayoutStub, isOverlayActive } from './testing.ts'
+import { isLiveRegion } from './util.ts'
+
+describe('overlay', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('toggles the overlay through data-ov', async () => {
+        document.body.innerHTML = '<div style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const cleanup = injectOverlay(element)
+        assert.equal(element.style.position, 'relative')
+        assert.equal(isOverlayActive(element), false)
+
+        element.dataset.ov = 'true'
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), true)
+
+        element.dataset.ov = 'false'
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), false)
+        cleanup()
+    })
+
+    it('removes the overlay on cleanup', async () => {
+        document.body.innerHTML = '<div data-ov="true" style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const cleanup = injectOverlay(element)
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), true)
+        cleanup()
+        assert.equal(isOverlayActive(element), false)
+    })
+
+    it('ends the loading state when disposed while displayed', async () => {
+        document.body.innerHTML = '<div data-sk-id="disposed" data-ov="true" style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const hides: CustomEvent[] = []
+        element.addEventListener('ov:hide', event => hides.push(event))
+        const cleanup = injectOverlay(element)
+        await flushLoadTools()
+        assert.equal(element.ariaBusy, 'true')
+
+        cleanup()
+        assert.equal(isOverlayActive(element), false)
+        assert.equal(element.ariaBusy, null)
+        assert.equal(hides.length, 1)
+        assert.deepEqual([getLoadingStats()['disposed'].ov.active, getLoadingStats()['disposed'].ov.count], [0, 1])
+    })
+
+    it('updates progress, message and cancel button in place', async () => {
+        document.body.innerHTML = '<div data-ov="true" style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const cancels: Event[] = []
+        element.addEventListener('ov:cancel', event => cancels.push(event))
+        const cleanup = injectOverlay(element)
+        await flushLoadTools()
+        const overlay = element.querySelector('[data-ov-state="active"]')!
+        const [arc, message, button] = ['circle:last-child', 'span', 'button'].map(selector =>
+            overlay.querySelector<HTMLElement>(selector)!,
+        )
+        assert.deepEqual([arc.getAttribute('stroke-dasharray'), message.hidden, button.hidden], ['0.25 1', true, true])
+
+        Object.assign(element.dataset, { ovProgress: '0.6', ovMessage: 'Saving', ovCancel: 'Cancel' })
+        await flushLoadTools()
+        assert.deepEqual([...element.querySelectorAll('[data-ov-state]')], [overlay])
+        assert.deepEqual(
+            [arc.getAttribute('stroke-dasharray'), message.textContent, button.textContent],
+            ['0.6 1', 'Saving', 'Cancel'],
+        )
+        assert.deepEqual([message.hidden, button.hidden], [false, false])
+
+        button.click()
+        assert.equal(cancels.length, 1)
+        assert.equal(cancels[0].bubbles, true)
+        cleanup()
+    })
+
+    it('restores focus captured when the overlay is enabled, before a delayed inject', async t => {
+        t.mock.timers.enable({ apis: ['setTimeout'] })
+        document.body.innerHTML = '<div data-ov-delay="100" style="width: 80px; height: 80px"><button></button></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const button = element.querySelector('button')!
+        const cleanup = injectOverlay(element)
+        button.focus()
+
+        element.dataset.ov = 'true'
+        element.inert = true
+        await Promise.resolve()
+        // Browsers move focus out of inert elements
+        button.blur()
+        t.mock.timers.tick(100)
+        assert.equal(isOverlayActive(element), true)
+
+        element.dataset.ov = 'false'
+        element.inert = false
+        await Promise.resolve()
+        assert.equal(isOverlayActive(element), false)
+        assert.equal(document.activeElement, button)
+        cleanup()
+    })
+
+    it('renders top layer overlays over the host without changing it', async () => {
+        document.body.innerHTML = `
+            <div style="left: 10px; top: 20px; width: 80px"><input data-ov-layer="top" style="height: 20px"></div>
+        `
+        const element = document.querySelector('input')!
+        const cleanup = injectOverlay(element)
+        const rect = (overlay: HTMLElement) =>
+            ['left', 'top', 'width', 'height'].map(key => overlay.style[key as 'left'])
+
+        element.dataset.ov = 'true'
+        await flushLoadTools()
+        assert.equal(isOverlayActive(element), true)
+        const overlay = document.body.lastElementChild as HTMLElement
+        assert.deepEqual(rect(overlay), ['10px', '20px', '80px', '20px'])
+        assert.equal(element.getAttribute('style'), 'height: 20px')
+
+        element.style.height = '30px'
+        await flushLoadTools()
+        assert.deepEqual(rect(overlay), ['10px', '20px', '80px', '30px'])
+        cleanup()
+        assert.equal(isOverlayActive(element), false)
+        assert.equal(overlay.isConnected, false)
+    })
+
+    it('dispatches lifecycle events and aggregates loading stats', async () => {
+        document.body.innerHTML = '<div data-sk-id="events" style="width: 80px; height: 80px"></div>'
+        const element = document.body.firstElementChild as HTMLElement
+        const events: CustomEvent[] = []
+        document.addEventListener('ov:show', event => events.push(event))
+        document.addEventListener('ov:hide', event => events.push(event))
+        const cleanup = injectOverlay(element)
+
+        element.dataset.ov = 'true'
+        await flushLoadTools()
+        assert.deepEqual(getLoadingStats()['events'].ov, { active: 1, count: 0, total: 0, max: 0 })
+        element.dataset.ov = 'false'
+        await flushLoadTools()
+        cleanup()
+
+        assert.deepEqual(
+            events.map(event => [event.type, event.detail.skId, event.detail.options.ov]),
+            [
+                ['ov:show', 'events', 'true'],
+                ['ov:hide', 'events', 'false'],
+            ],
+        )
+        assert.equal(typeof events[1].detail.duration, 'number')
+        const stats = getLoadingStats()['events'].ov
+        assert.deepEqual([stats.active, stats.count], [0, 1])
+        assert.equal(stats.max, events[1].detail.duration)
+    })
+
+    it('replaces global overlay options of earlier acquisitions', async () => {
+        const release = acquireGlobalOverlay({ ovMessage: 'Saving', ovAnnounce: 'Saving' })
+        await flushLoadTools()
+        const host = document.querySelector<HTMLElement>('body > [data-ov]')!
+        assert.equal(host.querySelector('span')!.textContent, 'Saving')
+        release()
+        await flushLoadTools()
+
+        const releaseAgain = acquireGlobalOverlay({})
+        await flushLoadTools()
+        assert.deepEqual({ ...host.dataset }, { ov: 'true' })
+        assert.equal(host.querySelector('[data-ov-state="active"] span')!.textContent, '')
+        releaseAgain()
+    })
+
+    it('reference counts the global overlay, locking and restoring the page', async () => {
+        document.body.innerHTML = '<main><button>Save</button></main><aside></aside>'
+        const [main, aside] = document.querySelectorAll<HTMLElement>('main, aside')
+        aside.inert = true
+        const button = document.querySelector('button')!
+        button.focus()
+        const releaseFirst = acquireGlobalOverlay()
+        const releaseSecond = acquireGlobalOverlay()
+        await flushLoadTools()
+        const host = document.querySelector<HTMLElement>('body > [data-ov]')!
+        assert.equal(isOverlayActive(host), true)
+        assert.equal(document.documentElement.style.overflow, 'hidden')
+        assert.deepEqual([main.inert, aside.inert, !!host.inert], [true, true, false])
+
+        releaseFirst()
+        releaseFirst()
+        await flushLoadTools()
+        assert.equal(isOverlayActive(host), true)
+        assert.equal(document.documentElement.style.overflow, 'hidden')
+
+        releaseSecond()
+        await flushLoadTools()
+        assert.equal(isOverlayActive(host), false)
+        assert.equal(document.documentElement.style.overflow, '')
+        assert.deepEqual([main.inert, aside.inert], [false, true])
+        assert.equal(document.activeElement, button)
+    })
+
+    it('keeps the live region announcing while the global overlay is held', async () => {
+        const release = acquireGlobalOverlay({ ovAnnounce: 'Saving' })
+        await flushLoadTools()
+        release()
+        await flushLoadTools()
+
+        const releaseAgain = acquireGlobalOverlay({ ovAnnounce: 'Loading' })
+        await flushLoadTools()
+        const region = [...document.body.children].find(isLiveRegion) as HTMLElement
+        assert.equal(!!region.inert, false)
+        assert.equal(region.textContent, 'Loading')
+        releaseAgain()
+    })
+
+    describe('timing', () => {
+        const toggle = async (element: HTMLElement, ov: boolean) => {
+            element.dataset.ov = `${ov}`
+            await Promise.resolve()
+        }
+
+        it('delays the overlay, and cancels it if disabled during the delay', async t => {
+            t.mock.timers.enable({ apis: ['setTimeout'] })
+            document.body.innerHTML = '<div data-ov-delay="100" style="width: 80px; height: 80px"></div>'
+            const element = document.body.firstElementChild as HTMLElement
+            const shows: CustomEvent[] = []
+            element.addEventListener('ov:show', event => shows.push(event))
+            const cleanup = injectOverlay(element)
+
+            await toggle(element, true)
+            t.mock.timers.tick(50)
+            await toggle(element, false)
+            t.mock.timers.tick(100)
+            assert.equal(isOverlayActive(element), false)
+            assert.equal(shows.length, 0)
+
+            await toggle(element, true)
+            t.mock.timers.tick(99)
+            assert.equal(isOverlayActive(element), false)
+            t.mock.timers.tick(1)
+            assert.equal(isOverlayActive(element), true)
+            assert.equal(shows.length, 1)
+            cleanup()
+        })
+
+        it('holds the overlay for the minimum time, and keeps it if enabled again during the hold', async t => {
+            t.mock.timers.enable({ apis: ['setTimeout'] })
+            document.body.innerHTML = '<div data-ov-min="10000" style="width: 80px; height: 80px"></div>'
+            const element = document.body.firstElementChild as HTMLElement
+            const events: string[] = []
+            element.addEventListener('ov:show', event => events.push(event.type))
+            element.addEventListener('ov:hide', event => events.push(event.type))
+            const cleanup = injectOverlay(element)
+
+            await toggle(element, true)
+            await toggle(element, false)
+            t.mock.timers.tick(5000)
+            assert.equal(isOverlayActive(element), true)
+            await toggle(element, true)
+            t.mock.timers.tick(10000)
+            assert.equal(isOverlayActive(element), true)
+
+            await toggle(element, false)
+            await toggle(element, true)
+            await toggle(element, false)
+            t.mock.timers.tick(10000)
+            assert.equal(isOverlayActive(element), false)
+            t.mock.timers.reset()
+            await flushLoadTools()
+            assert.equal(element.querySelectorAll('[data-ov-state]').length, 0)
+            assert.deepEqual(events, ['ov:show', 'ov:hide'])
+            assert.equal(element.ariaBusy, null)
+            cleanup()
+        })
+    })
+})
@@ -1,9 +1,29 @@
+import { adoptTheme, themeVar } from './theme.ts'
+import {
+    announce,
+    createLoadingState,
+    isLiveRegion,
+    type LoadingEventDetail,
+    prefersReducedMotion,
+    readCssOptions,
+    topLayerOverlays,
+    trackLoading,
+} from './util.ts'
+
 declare global {
     interface DOMStringMap extends OverlayOptions {}
+
+    interface HTMLElementEventMap {
+        'ov:cancel': CustomEvent<undefined>
+        'ov:show': CustomEvent<LoadingEventDetail<OverlayOptions>>
+        'ov:hide': CustomEvent<LoadingEventDetail<OverlayOptions>>
+    }
 }
 
 /**
  * Overlay `dataset` options that can be injected through element data attributes.
+ *
+ * Timing and layout options can also be set through css custom properties, see {@linkcode cssOptions}.
  */
 export type OverlayOptions = {
     /** Display overlay. */
@@ -16,50 +36,148 @@ export type OverlayOptions = {
     ovOut?: `${number}`
     /** Overlay z-index. */
     ovZ?: `${number}`
+    /** Delay before displaying the overlay (ms), prevents flashing on fast loads. */
+    ovDelay?: `${number}`
+    /** Minimum display time once the overlay is displayed (ms). */
+    ovMin?: `${number}`
+    /** Progress ratio (0 to 1), displays a spinner if absent or `indeterminate`. */
+    ovProgress?: `${number}` | 'indeterminate'
+    /** Message text. */
+    ovMessage?: string
+    /** Cancel button label, the button is only displayed if set. */
+    ovCancel?: string
+    /** Text announced to assistive technologies when the overlay is displayed. */
+    ovAnnounce?: string
+    /** Text announced to assistive technologies when the overlay is hidden. */
+    ovAnnounceEnd?: string
+    /** Emit User Timing marks and measures when the overlay is displayed and hidden. */
+    ovMetrics?: `${boolean}`
+    /** Render the overlay inside the host, or in the top layer anchored to the host, see {@linkcode showTopLayer}. */
+    ovLayer?: 'host' | 'top'
+}
+
+/**
+ * Options that can be set through css custom properties, like `--ov-z` or `--ov-delay`.
+ */
+const cssOptions = ['ovIn', 'ovOut', 'ovZ', 'ovDelay', 'ovMin', 'ovLayer'] as const satisfies (keyof OverlayOptions)[]
+
+/**
+ * Overlay factory context, allows the overlay to change in place while active.
+ */
+export type OverlayFactoryContext = {
+    /** Host element. */
+    host: HTMLElement
+    /** Register a listener called with the live {@linkcode OverlayOptions} whenever the host `dataset` changes. */
+    onUpdate: (listener: (options: OverlayOptions) => void) => void
+    /** Dispatch a bubbling `ov:cancel` event on the host element. */
+    cancel: () => void
 }
 
 /**
- * Module configuration, includes default {@linkcode OverlayOptions}, and a overlay factory.
+ * Create a configuration, includes default {@linkcode OverlayOptions}, and a overlay factory.
  */
-const configuration = {
+const createConfiguration = () => ({
     /** Default {@linkcode OverlayOptions}. */
-    defaults: { ovIn: '200', ovOut: '200', ovZ: '1' } satisfies OverlayOptions,
+    defaults: { ovIn: '200', ovOut: '200', ovZ: '1', ovDelay: '0', ovMin: '0' } satisfies OverlayOptions,
     /** Overlay factory. */
-    factory: () => {
+    factory: (options: OverlayOptions, context: OverlayFactoryContext) => {
         const overlay = document.createElement('i')
         overlay.style.position = 'absolute'
         overlay.style.display = 'grid'
-        overlay.style.placeItems = 'center'
-        overlay.style.background = '#FFFFFFC0'
+        overlay.style.placeContent = 'center'
+        overlay.style.justifyItems = 'center'
+        overlay.style.gap = '12px'
+        overlay.style.background = themeVar('--ov-backdrop')
         overlay.style.inset = '0'
         const spinnerTemplate = document.createElement('template')
-        spinnerTemplate.innerHTML = `<svg fill="none" width="50" height="50" stroke="#1A2126" stroke-width="6">
+        spinnerTemplate.innerHTML = `<svg fill="none" width="50" height="50" stroke-width="6">
             <circle cx="25" cy="25" r="22" opacity=".3"/>
-            <path d="M25 3a22 22 0 0 1 22 22" stroke-linecap="round" />
+            <circle cx="25" cy="25" r="22" pathLength="1" transform="rotate(-90 25 25)" stroke-linecap="round"/>
         </svg>`
         const spinner = overlay.appendChild(spinnerTemplate.content.firstChild as SVGElement)
-        spinner.animate({ rotate: ['0turn', '1turn'] }, { duration: 1000, iterations: Infinity })
+        spinner.style.stroke = themeVar('--ov-spinner-color')
+        const arc = spinner.lastElementChild!
+        const rotation = spinner.animate({ rotate: ['0turn', '1turn'] }, { duration: 1000, iterations: Infinity })
+        if (prefersReducedMotion()) rotation.cancel()
+        const message = overlay.appendChild(document.createElement('span'))
+        message.style.color = themeVar('--ov-color')
+        const button = overlay.appendChild(document.createElement('button'))
+        button.type = 'button'
+        button.addEventListener('click', context.cancel)
+        const update = ({ ovProgress, ovMessage, ovCancel }: OverlayOptions) => {
+            const progress = parseFloat(ovProgress ?? '')
+            const determinate = !isNaN(progress)
+            arc.setAttribute('stroke-dasharray', `${determinate ? Math.min(Math.max(progress, 0), 1) : 0.25} 1`)
+            if (determinate || prefersReducedMotion()) rotation.cancel()
+            else rotation.play()
+            message.textContent = ovMessage ?? ''
+            message.hidden = !ovMessage
+            button.textContent = ovCancel ?? ''
+            button.hidden = !ovCancel
+        }
+        update(options)
+        context.onUpdate(update)
         return overlay
     },
-}
+})
 
 /**
- * Set module {@linkcode configuration}.
+ * Overlay configuration of a {@linkcode createOverlayTools} instance.
+ */
+export type OverlayConfiguration = ReturnType<typeof createConfiguration>
+
+/**
+ * Module configuration, used by the default instance exports.
+ */
+const configuration = createConfiguration()
+
+/**
+ * Set {@linkcode configuration} parts, defaults are merged.
  *
+ * @param configuration Configuration to update.
  * @param overrides Configuration parts to override.
  */
-export const setOverlayConfiguration = (overrides: Partial<typeof configuration>) => {
+const updateConfiguration = (configuration: OverlayConfiguration, overrides: Partial<OverlayConfiguration>) => {
     const defaults = { ...configuration.defaults, ...overrides.defaults }
     Object.assign(configuration, overrides, { defaults })
 }
 
+/**
+ * Set module {@linkcode configuration}.
+ *
+ * @param overrides Configuration parts to override.
+ */
+export const setOverlayConfiguration = (overrides: Partial<OverlayConfiguration>) =>
+    updateConfiguration(configuration, overrides)
+
+/**
+ * Resolve {@linkcode element}'s {@linkcode OverlayOptions}.
+ *
+ * Precedence, from lowest to highest: `configuration.defaults`, css custom properties, see {@linkcode cssOptions}, and
+ * `element.dataset`.
+ *
+ * @param configuration Overlay configuration.
+ * @param element Overlay host element.
+ */
+const resolveOptions = (configuration: OverlayConfiguration, element: HTMLElement) => ({
+    ...configuration.defaults,
+    ...readCssOptions<OverlayOptions>(element, cssOptions),
+    ...element.dataset,
+})
+
 /**
  * Create a overlay using {@linkcode configuration.factory} and add layout properties.
  *
+ * @param configuration Overlay configuration.
  * @param options Element's resolved {@linkcode OverlayOptions}.
+ * @param context Factory context.
  */
-const createOverlay = (options: OverlayOptions) => {
-    const overlay = configuration.factory()
+const createOverlay = (
+    configuration: OverlayConfiguration,
+    options: OverlayOptions,
+    context: OverlayFactoryContext,
+) => {
+    const overlay = configuration.factory(options, context)
     overlay.slot = options.ovSlot ?? ''
     overlay.style.position = 'absolute'
     overlay.style.inset = '0'
@@ -68,67 +186,315 @@ const createOverlay = (options: OverlayOptions) => {
     return overlay
 }
 
+/**
+ * Display {@linkcode overlay} over {@linkcode host} in the top layer, leaving the host DOM and styles untouched.
+ *
+ * The overlay is a manual popover appended to `document.body`, anchored to the host using css anchor positioning, with
+ * the host as the popover implicit anchor. Where anchor positioning or the popover API are not supported, the overlay
+ * is fixed over the host rect, which is tracked when the host resizes, anything scrolls, or the viewport resizes.
+ *
+ * A cleanup function is returned to stop tracking the host, the overlay is not removed.
+ *
+ * @param host Overlay host element.
+ * @param overlay Overlay created with {@linkcode createOverlay}.
+ */
+const showTopLayer = (host: HTMLElement, overlay: HTMLElement) => {
+    topLayerOverlays.set(host, overlay)
+    Object.assign(overlay.style, { position: 'fixed', margin: '0', padding: '0', border: 'none' })
+    // Popovers have an opaque background by default
+    if (!overlay.style.background) overlay.style.background = 'transparent'
+    document.body.append(overlay)
+    // The implicit anchor is only set by browsers that read the `source` option
+    let sourced = false
+    if (overlay.showPopover) {
+        overlay.popover = 'manual'
+        overlay.showPopover({
+            get source() {
+                sourced = true
+                return host
+            },
+        })
+    }
+    if (sourced && globalThis.CSS?.supports?.('position-anchor: auto')) {
+        overlay.style.positionAnchor = 'auto'
+        Object.assign(overlay.style, {
+            top: 'anchor(top)',
+            right: 'anchor(right)',
+            bottom: 'anchor(bottom)',
+            left: 'anchor(left)',
+            width: 'auto',
+            height: 'auto',
+        })
+        return () => {}
+    }
+
+    let frame: number | undefined
+    const track = () => {
+        frame = undefined
+        const { left, top, width, height } = host.getBoundingClientRect()
+        Object.assign(overlay.style, {
+            inset: 'auto',
+            left: `${left}px`,
+            top: `${top}px`,
+            width: `${width}px`,
+            height: `${height}px`,
+        })
+    }
+    const schedule = () => void (frame ??= requestAnimationFrame(track))
+    const hostObserver = new ResizeObserver(schedule)
+    hostObserver.observe(host)
+    document.addEventListener('scroll', schedule, { capture: true, passive: true })
+    window.addEventListener('resize', schedule, { passive: true })
+    track()
+
+    return () => {
+        if (frame !== undefined) cancelAnimationFrame(frame)
+        hostObserver.disconnect()
+        document.removeEventListener('scroll', schedule, { capture: true })
+        window.removeEventListener('resize', schedule)
+    }
+}
+
 /**
  * Listen for {@linkcode element}'s `[data-ov]` and inject overlay.
  *
- * The overlay is generated using {@linkcode configuration.factory}.
+ * The overlay is generated using {@linkcode configuration.factory}. Changes to `[data-ov-progress]`,
+ * `[data-ov-message]` and `[data-ov-cancel]` are forwarded to the active overlay through the factory context.
+ *
+ * The overlay is only injected after `[data-ov-delay]`, and once injected, it is kept for at least `[data-ov-min]`.
  *
  * Elements side effects:
- * - `element.children`: Overlay appended.
- * - `element.style.position`: Set to `relative`.
+ * - `element.children`: Overlay appended, unless `[data-ov-layer="top"]`.
+ * - `element.style.position`: Set to `relative`, unless `[data-ov-layer="top"]`.
+ * - `element.ariaBusy`: Set to `true` while the overlay is displayed.
+ * - `document.activeElement`: When the overlay is hidden, focus is restored to the descendant focused when
+ *   `[data-ov]` was enabled.
+ *
+ * If `[data-ov-layer="top"]`, the overlay is rendered in the top layer instead, so it is not clipped by `overflow`
+ * ancestors or hidden by stacking contexts, and hosts that can't have children, like `input`, can be covered, see
+ * {@linkcode showTopLayer}.
+ *
+ * `[data-ov-announce]` and `[data-ov-announce-end]` are announced through a shared polite live region.
+ *
+ * Bubbling `ov:show` and `ov:hide` events are dispatched on the element when the overlay is displayed and hidden, and
+ * User Timing entries are emitted if `[data-ov-metrics]` is enabled, see `getLoadingStats`.
  *
  * Overlay side effects:
  * - `overlay.slot`: If required using `dataset` options.
  * - `overlay.style`: Several positioning properties.
+ * - `overlay.dataset.ovState`: `active`, or `leaving` while fading out.
  *
  * A cleanup function is returned to unsubscribe listeners and remove the overlay.
  *
  * @param element Root element to listen for overlay candidates.
  */
-export const injectOverlay = (element: HTMLElement) => {
+export const injectOverlay = (element: HTMLElement) => injectScopedOverlay(configuration, element)
+
+/**
+ * {@linkcode injectOverlay} implementation using {@linkcode configuration}.
+ *
+ * @param configuration Overlay configuration.
+ * @param element Root element to listen for overlay candidates.
+ */
+const injectScopedOverlay = (configuration: OverlayConfiguration, element: HTMLElement) => {
     let overlayElement!: HTMLElement | undefined
+    let updateListeners: ((options: OverlayOptions) => void)[] = []
+    let ariaBusy: string | null = null
+    let focused: HTMLElement | undefined
+    let tracked: ((options: OverlayOptions) => void) | undefined
+    let untrack: (() => void) | undefined
+
+    const relativeHost = () => {
+        const position = getComputedStyle(element).position
+        element.style.position = !position || position === 'static' ? 'relative' : position
+    }
 
     const inject = (animate: boolean) => {
-        const options = { ...configuration.defaults, ...element.dataset }
-        const overlay = createOverlay(options)
+        if (overlayElement) return
+        adoptTheme()
+        const options = resolveOptions(configuration, element)
+        updateListeners = []
+        const overlay = createOverlay(configuration, options, {
+            host: element,
+            onUpdate: listener => updateListeners.push(listener),
+            cancel: () => element.dispatchEvent(new CustomEvent('ov:cancel', { bubbles: true })),
+        })
         overlayElement = overlay
-        element.append(overlay)
+        overlay.dataset.ovState = 'active'
+        if (options.ovLayer === 'top') untrack = showTopLayer(element, overlay)
+        else (relativeHost(), element.append(overlay))
+        ariaBusy = element.getAttribute('aria-busy')
+        element.ariaBusy = 'true'
+        announce(options.ovAnnounce)
+        tracked = trackLoading<OverlayOptions>(element, 'ov', options, options.ovMetrics === 'true')
         removedObserver.observe(element)
         const duration = +options.ovIn * +animate
         requestAnimationFrame(() => overlay.animate({ opacity: [0, 1] }, { duration, easing: 'ease-out' }))
     }
 
     const eject = (animate: boolean) => {
-        const options = { ...configuration.defaults, ...element.dataset }
+        const options = resolveOptions(configuration, element)
         const overlay = overlayElement
+        if (!overlay) return
         overlayElement = undefined
+        overlay.dataset.ovState = 'leaving'
+        topLayerOverlays.delete(element)
+        updateListeners = []
+        element.ariaBusy = ariaBusy
+        if (animate) announce(options.ovAnnounceEnd)
+        if (focused?.isConnected && (!document.activeElement || document.activeElement === document.body))
+            focused.focus()
+        focused = undefined
+        tracked?.(options)
+        tracked = undefined
         removedObserver.unobserve(element)
+        const stopTracking = untrack
+        untrack = undefined
         const duration = +options.ovOut * +animate
         requestAnimationFrame(() =>
             overlay
                 ?.animate({ opacity: [1, 0] }, { duration, easing: 'ease-in' })
-                .finished.then(() => overlay?.remove()),
+                .finished.then(() => (stopTracking?.(), overlay?.remove())),
         )
     }
 
-    const enabledObserver = new MutationObserver(() => {
-        const options = { ...configuration.defaults, ...element.dataset }
-        if (options.ov === 'true') inject(true)
-        else eject(true)
+    const loadingState = createLoadingState(
+        () => inject(true),
+        () => eject(true),
+    )
+
+    const focusedDescendant = () =>
+        element.contains(document.activeElement) ? (document.activeElement as HTMLElement) : undefined
+
+    const enabledObserver = new MutationObserver(records => {
+        const options = resolveOptions(configuration, element)
+        if (records.some(({ attributeName }) => attributeName === 'data-ov')) {
+            // Wrappers make the element `inert` along with `[data-ov]`, so focus leaves it before a delayed inject
+            if (!overlayElement) focused = options.ov === 'true' ? (focusedDescendant() ?? focused) : undefined
+            loadingState.set(options.ov === 'true', +options.ovDelay, +options.ovMin)
+        }
+        updateListeners.forEach(listener => listener(options))
     })
 
-    const removedObserver = new ResizeObserver(
-        ([{ borderBoxSize: size }]) => size[0].blockSize === 0 && size[0].inlineSize === 0 && eject(false),
-    )
+    const removedObserver = new ResizeObserver(([{ borderBoxSize: size }]) => {
+        if (size[0].blockSize !== 0 || size[0].inlineSize !== 0) return
+        loadingState.reset()
+        eject(false)
+    })
 
-    const position = getComputedStyle(element).position
-    element.style.position = !position || position === 'static' ? 'relative' : position
-    enabledObserver.observe(element, { attributes: true, attributeFilter: ['data-ov'] })
-    if (element.dataset.ov === 'true') inject(true)
+    const options = resolveOptions(configuration, element)
+    if (options.ovLayer !== 'top') relativeHost()
+    enabledObserver.observe(element, {
+        attributes: true,
+        attributeFilter: ['data-ov', 'data-ov-progress', 'data-ov-message', 'data-ov-cancel'],
+    })
+    if (options.ov === 'true') {
+        focused = focusedDescendant()
+        loadingState.set(true, +options.ovDelay, +options.ovMin)
+    }
 
     return () => {
         enabledObserver.disconnect()
         removedObserver.disconnect()
-        overlayElement?.remove()
+        loadingState.reset()
+        const overlay = overlayElement
+        const stopTracking = untrack
+        eject(false)
+        stopTracking?.()
+        overlay?.remove()
+    }
+}
+
+/**
+ * Create an overlay tools instance with its own configuration, isolated from the module configuration and other
+ * instances.
+ *
+ * The page-level overlay, see {@linkcode acquireGlobalOverlay}, is shared by the page and always uses the module
+ * configuration.
+ *
+ * @param overrides Configuration parts to override, unset parts use the built-in configuration.
+ */
+export const createOverlayTools = (overrides: Partial<OverlayConfiguration> = {}) => {
+    const configuration = createConfiguration()
+    updateConfiguration(configuration, overrides)
+    return {
+        /** Set instance configuration, see {@linkcode setOverlayConfiguration}. */
+        setOverlayConfiguration: (overrides: Partial<OverlayConfiguration>) =>
+            updateConfiguration(configuration, overrides),
+        /** Inject overlays using the instance configuration, see {@linkcode injectOverlay}. */
+        injectOverlay: (element: HTMLElement) => injectScopedOverlay(configuration, element),
+    }
+}
+
+/**
+ * Page-level overlay state shared by {@linkcode acquireGlobalOverlay} callers.
+ */
+const globalOverlay = {
+    /** Number of callers holding the overlay. */
+    count: 0,
+    /** Fixed viewport host, created on first acquisition. */
+    host: undefined as HTMLElement | undefined,
+    /** Page state restore functions. */
+    restore: [] as (() => void)[],
+}
+
+/**
+ * Display a page-level overlay covering the viewport, the overlay is generated using {@linkcode injectOverlay}.
+ *
+ * Callers are reference counted, the overlay is displayed while any caller holds it.
+ *
+ * Page side effects while held:
+ * - `document.documentElement.style.overflow`: Set to `hidden` to lock page scroll.
+ * - `document.body.children`: Set to `inert`, except for the overlay host and the shared live region.
+ * - `document.activeElement`: Focus is restored to the previously focused element when released.
+ *
+ * A release function is returned, calling it more than once has no effect.
+ *
+ * @param options {@linkcode OverlayOptions}, the latest acquisition options replace earlier ones.
+ */
+export const acquireGlobalOverlay = (options: OverlayOptions = {}) => {
+    if (!globalOverlay.host) {
+        globalOverlay.host = document.createElement('div')
+        globalOverlay.host.style.position = 'fixed'
+        globalOverlay.host.style.inset = '0'
+        globalOverlay.host.style.pointerEvents = 'none'
+        document.body.append(globalOverlay.host)
+        injectOverlay(globalOverlay.host)
+    }
+    const host = globalOverlay.host
+    if (!host.isConnected) document.body.append(host)
+    host.style.zIndex = { ...configuration.defaults, ...options }.ovZ
+    host.style.pointerEvents = 'auto'
+    Object.keys(host.dataset)
+        .filter(key => key.startsWith('ov') && key !== 'ov' && !(key in options))
+        .forEach(key => delete host.dataset[key])
+    Object.assign(host.dataset, options, { ov: 'true' })
+
+    if (globalOverlay.count++ === 0) {
+        const root = document.documentElement
+        const { overflow } = root.style
+        const focused = document.activeElement as HTMLElement | null
+        const inert = [...document.body.children].filter(
+            (element): element is HTMLElement =>
+                element instanceof HTMLElement && element !== host && !isLiveRegion(element) && !element.inert,
+        )
+        root.style.overflow = 'hidden'
+        inert.forEach(element => (element.inert = true))
+        globalOverlay.restore = [
+            () => (root.style.overflow = overflow),
+            () => inert.forEach(element => (element.inert = false)),
+            () => focused?.isConnected && focused.focus(),
+        ]
+    }
+
+    let released = false
+    return () => {
+        if (released) return
+        released = true
+        if (--globalOverlay.count) return
+        host.style.pointerEvents = 'none'
+        host.dataset.ov = 'false'
+        globalOverlay.restore.forEach(restore => restore())
+        globalOverlay.restore = []
     }
 }
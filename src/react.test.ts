@@ -0,0 +1,39 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { act, createElement, use, useContext } from 'react'
+import { createRoot } from 'react-dom/client'
+import { SkeletonContext, SuspenseSkeleton } from './react.ts'
+import { flushLoadTools, installLayoutStub } from './testing.ts'
+
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true })
+
+describe('react', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('renders suspense fallback through skeleton context, then the loaded content', async () => {
+        let resolve!: (value: string) => void
+        const promise = new Promise<string>(callback => (resolve = callback))
+        const Name = () => {
+            const inFallback = useContext(SkeletonContext)
+            return createElement('p', null, inFallback ? 'Placeholder' : use(promise))
+        }
+        const root = createRoot(document.body.appendChild(document.createElement('div')))
+
+        await act(() => root.render(createElement(SuspenseSkeleton, null, createElement(Name))))
+        await flushLoadTools()
+        const fallback = document.querySelector('p')!
+        assert.equal(fallback.textContent, 'Placeholder')
+        assert.equal(fallback.dataset.sk, 'true')
+
+        await act(async () => resolve('Loaded'))
+        await flushLoadTools()
+        const content = document.querySelector('p')!
+        assert.equal(content.textContent, 'Loaded')
+        assert.equal(content.dataset.sk, 'false')
+        await act(() => root.unmount())
+    })
+})
@@ -0,0 +1,244 @@
+import {
+    createContext,
+    createElement,
+    Fragment,
+    type ReactNode,
+    type RefObject,
+    Suspense,
+    useContext,
+    useId,
+    useLayoutEffect,
+    useMemo,
+    useRef,
+} from 'react'
+import { acquireGlobalOverlay, injectOverlay, type OverlayOptions } from './overlay.ts'
+import { injectSkeleton, type SkeletonOptions } from './skeleton.ts'
+import type { OptionsToAttributes } from './util.ts'
+
+declare module 'react' {
+    interface HTMLAttributes<T>
+        extends OptionsToAttributes<OverlayOptions, ''>, OptionsToAttributes<SkeletonOptions, ''> {}
+}
+
+/**
+ * Inject into {@linkcode ref}'s element using {@linkcode inject} once, and {@linkcode update} it after every render.
+ *
+ * @param ref Element reference.
+ * @param inject Inject function, returns a cleanup function.
+ * @param update Update function.
+ */
+const useInjection = (
+    ref: RefObject<HTMLElement | null | undefined>,
+    inject: (element: HTMLElement) => () => void,
+    update: (element: HTMLElement) => void,
+) => {
+    useLayoutEffect(() => (ref.current ? inject(ref.current) : undefined), [])
+    useLayoutEffect(() => void (ref.current && update(ref.current)))
+}
+
+/**
+ * Inject into every element rendered between the returned markers, elements are tracked through a
+ * {@linkcode MutationObserver} on the markers' parent.
+ *
+ * @param inject Inject function, returns a cleanup function.
+ * @param update Update function, called after every render and every tracked elements change.
+ */
+const useMarkedInjection = (inject: (element: HTMLElement) => () => void, update: (element: HTMLElement) => void) => {
+    const start = useRef<HTMLTemplateElement>(null)
+    const end = useRef<HTMLTemplateElement>(null)
+    const callbacks = useRef({ inject, update })
+    const sync = useRef(() => {})
+    callbacks.current = { inject, update }
+
+    useLayoutEffect(() => {
+        const record = new Map<HTMLElement, () => void>()
+        sync.current = () => {
+            const elements: HTMLElement[] = []
+            for (let node = start.current?.nextSibling; node && node !== end.current; node = node.nextSibling)
+                if (node instanceof HTMLElement) elements.push(node)
+            const exited = [...record.keys()].filter(element => !elements.includes(element))
+            const entered = elements.filter(element => !record.has(element))
+            exited.forEach(element => (record.get(element)!(), record.delete(element)))
+            entered.forEach(element => record.set(element, callbacks.current.inject(element)))
+            elements.forEach(element => callbacks.current.update(element))
+        }
+        const observer = new MutationObserver(() => sync.current())
+        observer.observe(start.current!.parentNode!, { childList: true })
+        return () => {
+            observer.disconnect()
+            sync.current = () => {}
+            record.values().forEach(cleanup => cleanup())
+        }
+    }, [])
+
+    useLayoutEffect(() => sync.current())
+
+    return [
+        createElement('template', { ref: start, key: 'start' }),
+        createElement('template', { ref: end, key: 'end' }),
+    ]
+}
+
+/**
+ * Inject an overlay into {@linkcode ref}'s element using {@linkcode injectOverlay}.
+ *
+ * The element is also made `inert` while the overlay is enabled, unless the overlay has a cancel button.
+ *
+ * @param ref Element reference.
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.when Alternative to {@linkcode OverlayOptions.ov} (higher priority).
+ */
+export const useOverlay = (
+    ref: RefObject<HTMLElement | null | undefined>,
+    props: OverlayOptions & { when?: boolean },
+) => {
+    const { when, ...overlayProps } = props
+    const options: OverlayOptions = { ...overlayProps, ov: `${when ?? props.ov ?? false}` }
+    useInjection(ref, injectOverlay, element => {
+        Object.assign(element.dataset, options)
+        element.inert = options.ov === 'true' && !options.ovCancel
+    })
+}
+
+/**
+ * Inject skeletons into {@linkcode ref}'s element using {@linkcode injectSkeleton}.
+ *
+ * Skeletons are also enabled if an ancestor skeleton root is rendering fallback, see {@linkcode SkeletonContext}.
+ *
+ * @param ref Element reference.
+ * @param props {@linkcode SkeletonOptions} timing options.
+ * @param props.when Enable skeletons.
+ * @param props.debug Enable skeleton debug mode.
+ */
+export const useSkeleton = (
+    ref: RefObject<HTMLElement | null | undefined>,
+    props: Pick<SkeletonOptions, 'skDelay' | 'skMin'> & { when?: boolean; debug?: boolean },
+) => {
+    const { when, debug, ...skeletonProps } = props
+    const skId = useId()
+    const ancestorInFallback = useContext(SkeletonContext)
+    const inFallback = !!when || ancestorInFallback
+    useInjection(
+        ref,
+        element => injectSkeleton(element, debug),
+        element => {
+            Object.assign(element.dataset, { ...skeletonProps, skId, sk: `${inFallback}` })
+            element.inert = !props.debug && inFallback
+        },
+    )
+}
+
+/**
+ * Inject an overlay into the parent of this element using {@linkcode injectOverlay}.
+ *
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.when Alternative to {@linkcode OverlayOptions.ov} (higher priority).
+ */
+export const Overlay = (props: OverlayOptions & { when?: boolean }) => {
+    const stub = useRef<HTMLTemplateElement>(null)
+    const parent = useMemo(
+        () => ({
+            get current() {
+                return stub.current?.parentElement
+            },
+        }),
+        [],
+    )
+    useOverlay(parent, props)
+    return createElement('template', { ref: stub })
+}
+
+/**
+ * React wrapper for {@linkcode injectOverlay}.
+ *
+ * The wrapper also make {@linkcode children} `inert` if the overlay is enabled, unless it has a cancel button.
+ *
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.when Alternative to {@linkcode OverlayOptions.ov} (higher priority).
+ * @param props.children Elements to render, if many, each will have its own overlay.
+ */
+export const ShowOverlay = (props: OverlayOptions & { when?: boolean; children?: ReactNode }) => {
+    const { when, children, ...overlayProps } = props
+    const options: OverlayOptions = { ...overlayProps, ov: `${when ?? props.ov ?? false}` }
+    const [start, end] = useMarkedInjection(injectOverlay, element => {
+        Object.assign(element.dataset, options)
+        element.inert = options.ov === 'true' && !options.ovCancel
+    })
+    return createElement(Fragment, null, start, children, end)
+}
+
+/**
+ * Display a page-level overlay using {@linkcode acquireGlobalOverlay} while enabled.
+ *
+ * Every render acquires the overlay again before releasing the previous acquisition, so it is never hidden.
+ *
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.when Alternative to {@linkcode OverlayOptions.ov} (higher priority).
+ */
+export const GlobalOverlay = (props: OverlayOptions & { when?: boolean }) => {
+    const { when, ...overlayProps } = props
+    const release = useRef<() => void>(undefined)
+
+    useLayoutEffect(() => {
+        const previous = release.current
+        release.current = (when ?? props.ov === 'true') ? acquireGlobalOverlay(overlayProps) : undefined
+        previous?.()
+    })
+
+    useLayoutEffect(() => () => release.current?.(), [])
+
+    return undefined
+}
+
+/**
+ * Skeleton context to notify components rendering skeletons.
+ */
+export const SkeletonContext = createContext(false)
+
+/**
+ * React wrapper for {@linkcode injectSkeleton}.
+ *
+ * @param props {@linkcode SkeletonOptions} timing options.
+ * @param props.when Enable skeletons.
+ * @param props.debug Enable skeleton debug mode.
+ * @param props.children Children to render and generate skeletons for.
+ */
+export const ShowSkeleton = (
+    props: Pick<SkeletonOptions, 'skDelay' | 'skMin'> & { when?: boolean; debug?: boolean; children?: ReactNode },
+) => {
+    const { when, debug, children, ...skeletonProps } = props
+    const skId = useId()
+    const ancestorInFallback = useContext(SkeletonContext)
+    const inFallback = !!when || ancestorInFallback
+    const [start, end] = useMarkedInjection(
+        element => injectSkeleton(element, debug),
+        element => {
+            Object.assign(element.dataset, { ...skeletonProps, skId, sk: `${inFallback}` })
+            element.inert = !debug && inFallback
+        },
+    )
+    return createElement(
+        SkeletonContext.Provider,
+        { value: inFallback },
+        createElement(Fragment, null, start, children, end),
+    )
+}
+
+/**
+ * React {@linkcode Suspense}-like wrapper for {@linkcode injectSkeleton}.
+ *
+ * If there are any pending resources, children are rendered again as fallback with skeletons injected. Components
+ * must check {@linkcode SkeletonContext} to avoid suspending while rendering fallback.
+ * If an ancestor skeleton root is already rendering fallback, children skeletons will also be forced into fallback.
+ *
+ * @param props {@linkcode SkeletonOptions} timing options.
+ * @param props.debug Enable skeleton debug mode.
+ * @param props.children Children to render and generate skeletons for.
+ */
+export const SuspenseSkeleton = (
+    props: Pick<SkeletonOptions, 'skDelay' | 'skMin'> & { debug?: boolean; children?: ReactNode },
+) => {
+    const { children, ...skeletonProps } = props
+    const fallback = createElement(ShowSkeleton, { ...skeletonProps, when: true }, children)
+    return createElement(Suspense, { fallback }, createElement(ShowSkeleton, skeletonProps, children))
+}
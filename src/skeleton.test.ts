@@ -0,0 +1,554 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { captureSkeleton, injectSkeleton, renderSkeletonHtml, replaySkeleton } from './skeleton.ts'
+import { flushLoadTools, getSkeletonRects, installLayoutStub } from './testing.ts'
+
+const render = async (html: string) => {
+    document.body.innerHTML = html
+    const root = document.querySelector<HTMLElement>('#root')!
+    const cleanup = injectSkeleton(root)
+    await flushLoadTools()
+    return { root, cleanup }
+}
+
+describe('skeleton', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    describe('candidates selector', () => {
+        it('skips subtrees with a different skeleton id', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <div data-sk-id="other" data-sk-t="rect" style="height: 20px"><p>Other</p></div>
+                    <div data-sk-t="rect" style="top: 40px; height: 20px"></div>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 40, 80, 20)])
+        })
+
+        it('limits ancestor conditions to the root scope', async () => {
+            const { root } = await render(`
+                <div data-sk-id="other" data-sk-t="rect">
+                    <div id="root" data-sk="true" style="width: 80px">
+                        <div data-sk-t="rect" style="height: 20px"></div>
+                    </div>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20)])
+        })
+
+        it('skips descendants of typed and none elements', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <div data-sk-t="pill" style="height: 20px"><p>Label</p></div>
+                    <div data-sk-t="none" style="top: 40px; height: 20px"></div>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20)])
+        })
+    })
+
+    describe('shadow roots', () => {
+        it('walks open shadow roots only with skShadow, honoring host ids and types', async () => {
+            document.body.innerHTML = `
+                <div id="root" data-sk="true" style="width: 80px">
+                    <ds-card style="height: 20px"></ds-card>
+                    <ds-card data-sk-shadow="true" style="top: 40px"></ds-card>
+                    <ds-card data-sk-shadow="true" data-sk-t="rect" style="top: 80px; height: 20px"></ds-card>
+                    <ds-card data-sk-shadow="true" data-sk-id="other" style="top: 120px; height: 20px"></ds-card>
+                    <ds-card data-sk-shadow="true" data-closed style="top: 160px; height: 20px"></ds-card>
+                </div>
+            `
+            const root = document.querySelector<HTMLElement>('#root')!
+            root.querySelectorAll('ds-card').forEach(card => {
+                const mode = card.hasAttribute('data-closed') ? 'closed' : 'open'
+                card.attachShadow({ mode }).innerHTML = '<p>Text</p>'
+            })
+            injectSkeleton(root)
+            await flushLoadTools()
+            assert.deepEqual(getSkeletonRects(root), [
+                new DOMRect(0, 0, 80, 20),
+                new DOMRect(0, 40, 32, 16),
+                new DOMRect(0, 80, 80, 20),
+                new DOMRect(0, 160, 80, 20),
+            ])
+        })
+    })
+
+    describe('positions', () => {
+        it('generates a skeleton per text line', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <p style="left: 10px; top: 20px; width: 80px">0123456789 0123456789 012</p>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [
+                new DOMRect(10, 20, 80, 16),
+                new DOMRect(10, 36, 80, 16),
+                new DOMRect(10, 52, 48, 16),
+            ])
+        })
+
+        it('merges text of inline children into the parent line boxes', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <p style="width: 80px">Hello <b style="left: 48px">bold</b><a style="top: 16px">link</a></p>
+                </div>
+            `)
+            const skeletons = root.querySelectorAll<HTMLElement>('[aria-hidden]')
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 16), new DOMRect(0, 16, 32, 16)])
+            assert.deepEqual(
+                [...skeletons].map(skeleton => skeleton.style.scale),
+                ['1 0.5', '1 0.5'],
+            )
+        })
+
+        it('merges columns and scales text skeletons horizontally in vertical writing modes', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <p style="writing-mode: vertical-rl; width: 80px">ab<b style="top: 16px">cd</b></p>
+                </div>
+            `)
+            const skeleton = root.querySelector<HTMLElement>('[aria-hidden]')!
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 16, 32)])
+            assert.equal(skeleton.style.scale, '0.5 1')
+        })
+
+        it('generates a single skeleton for typed elements', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <p data-sk-t="rect" style="width: 80px">0123456789 0123456789</p>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 32)])
+        })
+
+        it('maps form controls to built-in types', async () => {
+            const { root } = await render(`
+                <form id="root" data-sk="true">
+                    <input style="width: 80px; height: 20px" />
+                    <button style="top: 40px; width: 80px; height: 20px">Submit</button>
+                </form>
+            `)
+            const skeletons = root.querySelectorAll<HTMLElement>('[aria-hidden]')
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20), new DOMRect(0, 40, 80, 20)])
+            assert.equal(skeletons[0].style.borderRadius, 'var(--sk-radius-input, 4px)')
+            assert.equal(skeletons[1].style.borderRadius, 'var(--sk-radius-pill, 1000px)')
+        })
+
+        it('generates centered squares for avatars and icons', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <div data-sk-t="avatar" style="width: 80px; height: 40px"></div>
+                    <div data-sk-t="icon" style="top: 40px; width: 20px; height: 40px"></div>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(20, 0, 40, 40), new DOMRect(0, 50, 20, 20)])
+        })
+
+        it('generates circles for circular media', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <img style="width: 40px; height: 40px; border-radius: 50%" />
+                    <img style="top: 40px; width: 40px; height: 40px" />
+                    <img style="top: 80px; width: 80px; height: 40px; border-radius: 50%" />
+                </div>
+            `)
+            const skeletons = root.querySelectorAll<HTMLElement>('[aria-hidden]')
+            assert.deepEqual(
+                [...skeletons].map(skeleton => skeleton.style.borderRadius),
+                ['50%', 'var(--sk-radius-m, 8px)', 'var(--sk-radius-m, 8px)'],
+            )
+        })
+
+        it('skips empty elements', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true">
+                    <div data-sk-t="rect" style="width: 80px; height: 0px"></div>
+                    <div data-sk-t="hide" style="width: 80px; height: 20px"></div>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [])
+        })
+
+        it('measures inserted and resized elements again', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true"><div data-sk-t="rect" style="width: 80px; height: 20px"></div></div>
+            `)
+            const element = root.firstElementChild as HTMLElement
+            element.style.height = '40px'
+            root.insertAdjacentHTML('beforeend', '<p style="top: 60px; width: 80px">Text</p>')
+            await flushLoadTools()
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 40), new DOMRect(0, 60, 32, 16)])
+        })
+    })
+
+    describe('css options', () => {
+        it('reads options from css custom properties below data attributes', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <div style="--sk-t: rect; height: 20px"><p>Label</p></div>
+                    <div data-sk-t="none" style="--sk-t: rect; top: 40px; height: 20px"></div>
+                    <p style="--sk-t: none; top: 60px">Hidden</p>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20)])
+        })
+
+        it('only reads css options of new candidates until the root resizes', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <p>First</p>
+                    <p style="top: 20px">Second</p>
+                </div>
+            `)
+            const read = CSSStyleDeclaration.prototype.getPropertyValue
+            const elements: Element[] = []
+            const getComputedStyle = globalThis.getComputedStyle
+            globalThis.getComputedStyle = element => {
+                const style = getComputedStyle(element)
+                style.getPropertyValue = property => (
+                    property === '--sk-t' && elements.push(element),
+                    read.call(style, property)
+                )
+                return style
+            }
+            const third = root.appendChild(Object.assign(document.createElement('p'), { textContent: 'Third' }))
+            third.style.top = '40px'
+            await flushLoadTools()
+            globalThis.getComputedStyle = getComputedStyle
+            assert.deepEqual(elements, [third])
+        })
+    })
+
+    describe('placement', () => {
+        it('hosts skeletons in nested scroll containers', async () => {
+            const { root, cleanup } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <div id="scroller" style="overflow-y: auto; top: 20px; height: 40px">
+                        <p style="top: 10px">Text</p>
+                    </div>
+                </div>
+            `)
+            const scroller = root.querySelector<HTMLElement>('#scroller')!
+            assert.equal(scroller.querySelectorAll(':scope > [aria-hidden="true"]').length, 1)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 30, 32, 16)])
+            assert.equal(scroller.style.position, 'relative')
+            cleanup()
+            assert.equal(scroller.style.position, '')
+        })
+
+        it('does not host skeletons in clipping or hidden containers', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" style="width: 80px">
+                    <div style="overflow: hidden; height: 20px"><p>Text</p></div>
+                    <div style="overflow-y: auto; top: 20px; height: 40px">Label<p style="top: 16px">Text</p></div>
+                </div>
+            `)
+            assert.deepEqual(
+                [...root.querySelectorAll(':scope > div:not([aria-hidden])')].map(container => [
+                    container.style.position,
+                    container.children.length,
+                ]),
+                [
+                    ['', 1],
+                    ['', 1],
+                ],
+            )
+            assert.deepEqual(getSkeletonRects(root), [
+                new DOMRect(0, 0, 32, 16),
+                new DOMRect(0, 20, 40, 16),
+                new DOMRect(0, 36, 32, 16),
+            ])
+        })
+
+        it('only generates skeletons near the viewport when lazy', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" data-sk-lazy="true" data-sk-lazy-margin="100px" style="width: 80px">
+                    <p>Near</p>
+                    <p style="top: 800px">Margin</p>
+                    <p style="top: 2000px">Far</p>
+                </div>
+            `)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 32, 16), new DOMRect(0, 800, 48, 16)])
+            assert.equal(root.querySelector<HTMLElement>('p:nth-of-type(3)')!.style.opacity, '')
+        })
+    })
+
+    describe('snapshots', () => {
+        const capture = () => {
+            document.body.innerHTML = `
+                <div id="root" style="width: 80px; height: 60px">
+                    <p data-sk-t="rect" data-app="secret" style="height: 20px">Text</p>
+                    <p style="top: 20px">Text</p>
+                </div>
+            `
+            return JSON.parse(JSON.stringify(captureSkeleton(document.querySelector<HTMLElement>('#root')!)))
+        }
+
+        it('captures layout options only', () => {
+            const snapshot = capture()
+            assert.deepEqual([snapshot.version, snapshot.skId, snapshot.width, snapshot.height], [1, 'default', 80, 60])
+            assert.deepEqual(snapshot.skeletons[0].options, {
+                skT: 'rect',
+                skO: 'center',
+                skSx: '1',
+                skSy: '1',
+                skTx: '0px',
+                skTy: '0px',
+            })
+        })
+
+        it('replays captured skeletons', () => {
+            const snapshot = capture()
+            document.body.innerHTML = '<div id="root"></div>'
+            const root = document.querySelector<HTMLElement>('#root')!
+            const cleanup = replaySkeleton(root, snapshot)
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20), new DOMRect(0, 20, 32, 16)])
+            assert.equal(root.style.minHeight, '60px')
+            cleanup()
+            assert.deepEqual(getSkeletonRects(root), [])
+            assert.equal(root.getAttribute('style'), '')
+        })
+
+        it('renders captured skeletons into html', () => {
+            const snapshot = capture()
+            document.body.innerHTML = renderSkeletonHtml(snapshot)
+            const root = document.querySelector<HTMLElement>('[data-sk-snapshot="default"]')!
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20), new DOMRect(0, 20, 32, 16)])
+        })
+
+        it('ignores snapshots of unknown versions', () => {
+            const snapshot = { ...capture(), version: 2 }
+            document.body.innerHTML = '<div id="root"></div>'
+            const root = document.querySelector<HTMLElement>('#root')!
+            replaySkeleton(root, snapshot)
+            assert.deepEqual([root.children.length, root.getAttribute('style')], [0, null])
+            assert.equal(renderSkeletonHtml(snapshot), '')
+        })
+    })
+
+    describe('debug inspector', () => {
+        it('describes and edits hovered candidates', async () => {
+            document.body.innerHTML = `
+                <div id="root" data-sk="true" style="width: 80px">
+                    <p>Text</p>
+                    <div data-sk-t="none" style="top: 20px; height: 20px">Hidden</div>
+                </div>
+            `
+            const root = document.querySelector<HTMLElement>('#root')!
+            const hidden = root.querySelector<HTMLElement>('div')!
+            const cleanup = injectSkeleton(root, true)
+            // The inspector is loaded lazily in debug mode
+            await import('./inspector.ts')
+            await flushLoadTools()
+            const panel = document.querySelector<HTMLElement>('[data-sk-inspector]')!.shadowRoot!
+            const status = () => panel.querySelector('.status')!.textContent
+
+            root.dispatchEvent(new MouseEvent('pointermove', { bubbles: true, clientX: 4, clientY: 4 }))
+            assert.equal(status(), 'included, 1 skeleton(s)')
+
+            hidden.dispatchEvent(new MouseEvent('click', { bubbles: true, altKey: true, clientX: 4, clientY: 30 }))
+            assert.equal(status(), 'excluded, data-sk-t="none"')
+
+            const type = panel.querySelector<HTMLSelectElement>('select[name="skT"]')!
+            type.value = 'rect'
+            type.dispatchEvent(new window.Event('input'))
+            await flushLoadTools()
+            assert.equal(hidden.dataset.skT, 'rect')
+            assert.equal(status(), 'included, 1 skeleton(s)')
+            assert.equal(panel.querySelector('pre')!.textContent, 'attr:data-sk-t="rect"')
+
+            cleanup()
+            assert.equal(document.querySelector('[data-sk-inspector]'), null)
+        })
+    })
+
+    describe('repeat', () => {
+        it('clones template content while skeletons are displayed', async () => {
+            const { root } = await render(`
+                <ul id="root" style="width: 80px">
+                    <template data-sk-repeat="3"><li data-sk-t="rect" style="height: 20px"></li></template>
+                    <div data-sk-id="other"><template data-sk-repeat="2"><li>Other</li></template></div>
+                </ul>
+            `)
+            root.dataset.sk = 'true'
+            await flushLoadTools()
+            assert.equal(root.querySelectorAll('li').length, 3)
+            assert.equal(getSkeletonRects(root).length, 3)
+
+            root.dataset.sk = 'false'
+            await flushLoadTools()
+            assert.equal(root.querySelectorAll('li').length, 0)
+            assert.equal(getSkeletonRects(root).length, 0)
+        })
+
+        it('shrinks clones text by the variance', async () => {
+            const { root } = await render(`
+                <ul id="root" data-sk="true">
+                    <template data-sk-repeat="2" data-sk-variance="0.5"><li>Item</li></template>
+                </ul>
+            `)
+            const scales = [...root.querySelectorAll('li')].map(item => +item.dataset.skSx!)
+            assert.equal(scales.length, 2)
+            assert.ok(scales.every(scale => scale >= 0.5 && scale <= 1))
+        })
+    })
+
+    describe('handoff', () => {
+        it('keeps skeletons until the handoff animations finish', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" data-sk-out="200">
+                    <div data-sk-t="rect" style="width: 80px; height: 20px"></div>
+                </div>
+            `)
+            const element = root.querySelector<HTMLElement>('[data-sk-t="rect"]')!
+            root.dataset.sk = 'false'
+            await Promise.resolve()
+            assert.equal(element.style.opacity, '')
+            assert.equal(getSkeletonRects(root).length, 1)
+            await flushLoadTools()
+            assert.equal(getSkeletonRects(root).length, 0)
+        })
+
+        it('staggers the handoff in document order', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" data-sk-out="200" data-sk-out-mode="stagger" data-sk-out-stagger="30">
+                    <div id="first" data-sk-t="rect" style="width: 80px; height: 20px"></div>
+                </div>
+            `)
+            root.insertAdjacentHTML('afterbegin', '<div id="zeroth" data-sk-t="rect" style="height: 20px"></div>')
+            await flushLoadTools()
+            const delays: [string, unknown][] = []
+            const animate = Element.prototype.animate
+            Element.prototype.animate = function (this: Element, keyframes, options) {
+                if (this.id) delays.push([this.id, (options as KeyframeAnimationOptions).delay])
+                return animate.call(this, keyframes, options)
+            }
+            root.dataset.sk = 'false'
+            await flushLoadTools()
+            Element.prototype.animate = animate
+            assert.deepEqual(delays, [
+                ['zeroth', 0],
+                ['first', 30],
+            ])
+        })
+
+        it('cancels the handoff when skeletons are displayed again', async () => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" data-sk-out="200" data-sk-out-mode="flip">
+                    <div data-sk-t="rect" style="width: 80px; height: 20px"></div>
+                </div>
+            `)
+            root.dataset.sk = 'false'
+            await Promise.resolve()
+            root.dataset.sk = 'true'
+            await flushLoadTools()
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 80, 20)])
+        })
+    })
+
+    describe('injection', () => {
+        it('restores opacity, visibility and position', async () => {
+            const { root } = await render(`
+                <div id="root" style="visibility: visible">
+                    Root text
+                    <div data-sk-t="rect" style="height: 20px; opacity: 0.5"></div>
+                </div>
+            `)
+            const element = root.querySelector<HTMLElement>('[data-sk-t="rect"]')!
+            root.dataset.sk = 'true'
+            await flushLoadTools()
+            assert.equal(root.style.position, 'relative')
+            assert.equal(root.style.visibility, 'hidden')
+            assert.equal(element.style.opacity, '0')
+            assert.equal(getSkeletonRects(root).length, 2)
+
+            root.dataset.sk = 'false'
+            await flushLoadTools()
+            assert.equal(root.style.position, '')
+            assert.equal(root.style.visibility, 'visible')
+            assert.equal(element.style.opacity, '0.5')
+            assert.equal(getSkeletonRects(root).length, 0)
+        })
+
+        it('restores styles on cleanup', async () => {
+            const { root, cleanup } = await render(`
+                <div id="root" data-sk="true" style="position: absolute">
+                    <div data-sk-t="rect" style="height: 20px"></div>
+                </div>
+            `)
+            const element = root.querySelector<HTMLElement>('[data-sk-t="rect"]')!
+            assert.equal(element.style.opacity, '0')
+            cleanup()
+            assert.equal(root.style.position, 'absolute')
+            assert.equal(element.style.opacity, '')
+            assert.equal(getSkeletonRects(root).length, 0)
+        })
+    })
+
+    describe('timing', () => {
+        const toggle = async (root: HTMLElement, sk: boolean) => {
+            root.dataset.sk = `${sk}`
+            await Promise.resolve()
+        }
+
+        it('delays skeletons, and cancels them if disabled during the delay', async t => {
+            const { root } = await render(`
+                <div id="root" data-sk="false" data-sk-delay="100" style="width: 80px">
+                    <p style="opacity: 0.5">Text</p>
+                </div>
+            `)
+            const element = root.querySelector('p')!
+            t.mock.timers.enable({ apis: ['setTimeout'] })
+            await toggle(root, true)
+            t.mock.timers.tick(50)
+            await toggle(root, false)
+            t.mock.timers.tick(100)
+            t.mock.timers.reset()
+            await flushLoadTools()
+            assert.equal(getSkeletonRects(root).length, 0)
+            assert.deepEqual([root.ariaBusy, element.style.opacity], [null, '0.5'])
+
+            t.mock.timers.enable({ apis: ['setTimeout'] })
+            await toggle(root, true)
+            t.mock.timers.tick(100)
+            t.mock.timers.reset()
+            await flushLoadTools()
+            assert.deepEqual(getSkeletonRects(root), [new DOMRect(0, 0, 32, 16)])
+            assert.deepEqual([root.ariaBusy, element.style.opacity], ['true', '0'])
+        })
+
+        it('holds skeletons for the minimum time, and restores styles after toggles', async t => {
+            const { root } = await render(`
+                <div id="root" data-sk="true" data-sk-min="10000" style="width: 80px">
+                    <p style="opacity: 0.5">Text</p>
+                </div>
+            `)
+            const element = root.querySelector('p')!
+            const events: string[] = []
+            root.addEventListener('sk:inject', event => events.push(event.type))
+            root.addEventListener('sk:eject', event => events.push(event.type))
+            t.mock.timers.enable({ apis: ['setTimeout'] })
+            await toggle(root, false)
+            t.mock.timers.tick(5000)
+            assert.equal(getSkeletonRects(root).length, 1)
+            await toggle(root, true)
+            t.mock.timers.tick(10000)
+            assert.equal(getSkeletonRects(root).length, 1)
+
+            await toggle(root, false)
+            await toggle(root, true)
+            await toggle(root, false)
+            t.mock.timers.tick(10000)
+            t.mock.timers.reset()
+            await flushLoadTools()
+            assert.equal(getSkeletonRects(root).length, 0)
+            assert.deepEqual([root.ariaBusy, element.style.opacity], [null, '0.5'])
+            assert.deepEqual(events, ['sk:eject'])
+        })
+    })
+})
@@ -1,20 +1,45 @@
-import { CssLength } from './util'
+import type { InspectorDescription, InspectorRoot } from './inspector.ts'
+import { adoptTheme, themeVar } from './theme.ts'
+import {
+    announce,
+    createLoadingState,
+    type CssLength,
+    type LoadingEventDetail,
+    prefersReducedMotion,
+    readCssOptions,
+    trackLoading,
+} from './util.ts'
 
 declare global {
     interface DOMStringMap extends SkeletonOptions {}
+
+    interface HTMLElementEventMap {
+        'sk:inject': CustomEvent<LoadingEventDetail<SkeletonOptions>>
+        'sk:eject': CustomEvent<LoadingEventDetail<SkeletonOptions>>
+    }
 }
 
 /**
  * Skeleton `dataset` options that can be injected through element data attributes.
+ *
+ * Layout, animation and timing options can also be set through css custom properties, see {@linkcode cssOptions}.
  */
 export type SkeletonOptions = {
     /** Skeleton subtree ID. Subtrees with different IDs are not selected for generation. */
     skId?: string
     /** Display skeletons. */
     sk?: `${boolean}`
-    /** Skeleton type. */
-    skT?: 'none' | 'hide' | 'rect' | 'pill' | 'round' | 'text'
-    /** Roundness of `round` skeletons. Defaults to `m`. */
+    /**
+     * Skeleton type.
+     *
+     * - `input`: Form control box with a small radius.
+     * - `button`: Pill covering the element box.
+     * - `avatar`: Circle of the element smaller side, centered.
+     * - `icon`: Square of the element smaller side, centered, with a small radius.
+     * - `media`: Embedded content box, rounded like `round`.
+     */
+    skT?: 'none' | 'hide' | 'rect' | 'pill' | 'round' | 'text' | 'input' | 'button' | 'avatar' | 'icon' | 'media'
+    /** Roundness of `round` and `media` skeletons. Defaults to `m`. */
     skR?: 'xs' | 's' | 'm' | 'l' | 'xl'
     /** Transform origin to scale operations (css property: transform-origin). */
     skO?: string
@@ -32,8 +57,136 @@ export type SkeletonOptions = {
     skH?: CssLength
     /** Skeleton z-index. */
     skZ?: `${number}`
+    /** Delay before displaying skeletons (ms), prevents flashing on fast loads. */
+    skDelay?: `${number}`
+    /** Minimum display time once skeletons are displayed (ms). */
+    skMin?: `${number}`
+    /** Handoff duration from skeletons to content once loaded (ms), skeletons are removed at once if `0`. */
+    skOut?: `${number}`
+    /**
+     * Handoff transition mode.
+     *
+     * - `crossfade`: Skeletons fade out while content fades in.
+     * - `stagger`: Crossfade delayed by `skOutStagger` for each element in document order.
+     * - `flip`: Crossfade, and content morphs from its skeleton geometry into its own geometry.
+     */
+    skOutMode?: 'crossfade' | 'stagger' | 'flip'
+    /** Delay between elements of the `stagger` handoff (ms). */
+    skOutStagger?: `${number}`
+    /** Text announced to assistive technologies when the root skeletons are displayed. */
+    skAnnounce?: string
+    /** Text announced to assistive technologies when the root skeletons are hidden. */
+    skAnnounceEnd?: string
+    /** Emit User Timing marks and measures when the root skeletons are displayed and hidden. */
+    skMetrics?: `${boolean}`
+    /** Root shared animation, replaces the factory animation of every skeleton. */
+    skA?: 'none' | 'pulse' | 'wave'
+    /** Root `wave` animation direction. */
+    skAd?: 'right' | 'left' | 'down' | 'up'
+    /** Root animation cycle duration (ms). */
+    skAs?: `${number}`
+    /** Generate skeletons for the open shadow root content of custom elements instead of a single skeleton. */
+    skShadow?: `${boolean}`
+    /** Root option to only generate skeletons for candidates near the viewport. */
+    skLazy?: `${boolean}`
+    /** Root distance around the viewport where candidates are near (css `rootMargin`). */
+    skLazyMargin?: string
+    /** Number of placeholder clones of a `template` content displayed while skeletons are displayed. */
+    skRepeat?: `${number}`
+    /** Width variance of placeholder clones text (ratio 0 to 1), text skeletons are shrunk by up to this ratio. */
+    skVariance?: `${number}`
+}
+
+/**
+ * Skeleton resolved by {@linkcode captureSkeleton}, positioned relative to the root element.
+ */
+export type SkeletonSnapshotEntry = {
+    /** X position relative to the root element (px). */
+    x: number
+    /** Y position relative to the root element (px). */
+    y: number
+    /** Measured width (px). */
+    width: number
+    /** Measured height (px). */
+    height: number
+    /** Skeleton is a vertical text line (vertical writing modes). */
+    vertical?: boolean
+    /** Element's resolved layout options, see {@linkcode entryOptions}, `skT` is always set. */
+    options: Pick<SkeletonOptions, (typeof entryOptions)[number]>
+    /** Resolved border radius. */
+    radius: string
+}
+
+/**
+ * Serializable skeleton snapshot of a root element, see {@linkcode captureSkeleton}.
+ */
+export type SkeletonSnapshot = {
+    /** Snapshot format version. */
+    version: 1
+    /** Skeleton subtree ID of the captured root. */
+    skId: string
+    /** Root element width (px). */
+    width: number
+    /** Root element height (px). */
+    height: number
+    /** Captured skeletons. */
+    skeletons: SkeletonSnapshotEntry[]
 }
 
+/**
+ * Element option attributes that change the generated skeletons.
+ */
+const optionAttributes = ['id', 't', 'r', 'o', 'sx', 'sy', 'tx', 'ty', 'w', 'h', 'z', 'a', 'ad', 'as', 'shadow'].map(
+    option => `data-sk-${option}`,
+)
+
+/**
+ * Layout options kept in skeleton entries, used to style the skeletons, see {@linkcode skeletonStyle}.
+ */
+const entryOptions = [
+    'skT',
+    'skO',
+    'skSx',
+    'skSy',
+    'skTx',
+    'skTy',
+    'skW',
+    'skH',
+    'skZ',
+] as const satisfies (keyof SkeletonOptions)[]
+
+/**
+ * {@linkcode SkeletonSnapshot} format version, snapshots of other versions are ignored.
+ */
+const snapshotVersion = 1
+
+/**
+ * Options that can be set through css custom properties, like `--sk-t` or `--sk-sx`.
+ */
+const cssOptions = [
+    'skT',
+    'skR',
+    'skO',
+    'skSx',
+    'skSy',
+    'skTx',
+    'skTy',
+    'skW',
+    'skH',
+    'skZ',
+    'skDelay',
+    'skMin',
+    'skOut',
+    'skOutMode',
+    'skOutStagger',
+    'skA',
+    'skAd',
+    'skAs',
+    'skShadow',
+    'skLazy',
+    'skLazyMargin',
+] as const satisfies (keyof SkeletonOptions)[]
+
 /**
  * Border radius values for different skeleton decoration modes and radius.
  */
@@ -41,20 +194,25 @@ const radii: { [_ in NonNullable<SkeletonOptions['skT' | 'skR']>]: string } = {
     none: '0px',
     hide: '0px',
     rect: '0px',
-    pill: '1000px',
-    round: '8px',
-    text: '0.4lh',
-    xs: '2px',
-    s: '4px',
-    m: '8px',
-    l: '12px',
-    xl: '16px',
+    pill: themeVar('--sk-radius-pill'),
+    round: themeVar('--sk-radius-m'),
+    text: themeVar('--sk-radius-text'),
+    input: themeVar('--sk-radius-input'),
+    button: themeVar('--sk-radius-pill'),
+    avatar: '50%',
+    icon: themeVar('--sk-radius-icon'),
+    media: themeVar('--sk-radius-m'),
+    xs: themeVar('--sk-radius-xs'),
+    s: themeVar('--sk-radius-s'),
+    m: themeVar('--sk-radius-m'),
+    l: themeVar('--sk-radius-l'),
+    xl: themeVar('--sk-radius-xl'),
 }
 
 /**
- * Module configuration, includes default {@linkcode SkeletonOptions}, and a skeleton factory.
+ * Create a configuration, includes default {@linkcode SkeletonOptions}, and a skeleton factory.
  */
-const configuration = {
+const createConfiguration = () => ({
     /** Default {@linkcode SkeletonOptions}. */
     defaults: {
         skR: 'm',
@@ -64,144 +222,695 @@ const configuration = {
         skSy: '1',
         skTx: '0px',
         skTy: '0px',
+        skAd: 'right',
+        skAs: '2000',
+        skDelay: '0',
+        skMin: '0',
+        skOut: '0',
+        skOutMode: 'crossfade',
+        skOutStagger: '30',
+        skLazyMargin: '50%',
     } as Omit<SkeletonOptions, 'sk' | 'skT'>,
     /** Default {@linkcode SkeletonOptions} for specific elements. */
     elements: {
-        img: { skT: 'round' },
-        picture: { skT: 'round' },
-        video: { skT: 'round' },
+        img: { skT: 'media' },
+        picture: { skT: 'media' },
+        video: { skT: 'media' },
+        canvas: { skT: 'media' },
+        iframe: { skT: 'media' },
         svg: { skT: 'round' },
+        input: { skT: 'input' },
+        select: { skT: 'input' },
+        textarea: { skT: 'input' },
+        button: { skT: 'button' },
     } as { [_ in string]?: Omit<SkeletonOptions, 'skId' | 'sk'> },
     /** Skeleton factory. */
     factory: () => {
         const skeleton = document.createElement('div') as HTMLElement
-        skeleton.style.background = '#DCE2E5'
-        skeleton.animate({ opacity: [1, 0.5, 1] }, { duration: 2000, easing: 'ease-in-out', iterations: Infinity })
+        skeleton.style.background = themeVar('--sk-color')
+        if (!prefersReducedMotion())
+            skeleton.animate({ opacity: [1, 0.5, 1] }, { duration: 2000, easing: 'ease-in-out', iterations: Infinity })
         return skeleton
     },
-}
+})
 
 /**
- * Set module {@linkcode configuration}.
+ * Skeleton configuration of a {@linkcode createSkeletonTools} instance.
+ */
+export type SkeletonConfiguration = ReturnType<typeof createConfiguration>
+
+/**
+ * Module configuration, used by the default instance exports.
+ */
+const configuration = createConfiguration()
+
+/**
+ * Set {@linkcode configuration} parts, defaults and element defaults are merged.
  *
+ * @param configuration Configuration to update.
  * @param overrides Configuration parts to override.
  */
-export const setSkeletonConfiguration = (overrides: Partial<typeof configuration>) => {
+const updateConfiguration = (configuration: SkeletonConfiguration, overrides: Partial<SkeletonConfiguration>) => {
     const defaults = { ...configuration.defaults, ...overrides.defaults }
     const elements = { ...configuration.elements, ...overrides.elements }
     Object.assign(configuration, overrides, { defaults, elements })
 }
 
+/**
+ * Set module {@linkcode configuration}.
+ *
+ * @param overrides Configuration parts to override.
+ */
+export const setSkeletonConfiguration = (overrides: Partial<SkeletonConfiguration>) =>
+    updateConfiguration(configuration, overrides)
+
+/**
+ * Resolve {@linkcode element}'s {@linkcode SkeletonOptions}.
+ *
+ * Precedence, from lowest to highest:
+ * - `configuration.defaults`.
+ * - `configuration.elements[localName]`, if {@linkcode elementDefaults} is set.
+ * - Css custom properties, see {@linkcode cssOptions}.
+ * - `element.dataset`.
+ *
+ * Css options are read from {@linkcode cssCache} if set, and cached once read, as reading them forces a style
+ * computation.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Element to resolve options.
+ * @param elementDefaults Include element defaults, used for candidates.
+ * @param cssCache Css options cache.
+ */
+const resolveOptions = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    elementDefaults?: boolean,
+    cssCache?: WeakMap<Element, Partial<SkeletonOptions>>,
+): SkeletonOptions => {
+    const css = cssCache?.get(element) ?? readCssOptions<SkeletonOptions>(element, cssOptions)
+    cssCache?.set(element, css)
+    return {
+        ...configuration.defaults,
+        ...(elementDefaults ? configuration.elements[element.localName] : undefined),
+        ...css,
+        ...element.dataset,
+    }
+}
+
 /**
  * Listen for {@linkcode element}'s `[data-sk]` and inject skeletons.
  *
  * The overlay is generated using {@linkcode configuration.factory}.
  *
+ * Skeletons are only injected after the root `[data-sk-delay]`, and once injected, they are kept for at least the
+ * root `[data-sk-min]`.
+ *
  * Elements side effects:
  * - `element.children`: Skeletons appended.
+ * - `template[data-sk-repeat]`: Placeholder clones inserted before the template.
  * - `element.style.position`: Set to `relative`.
  * - `element.style.opacity`: Set to `0`.
  * - `element.style.visibility`: Set to `hidden`.
+ * - `element.ariaBusy`: Set to `true` while skeletons are displayed.
+ * - Nested scroll containers `style.position`: Set to `relative`, if they host skeletons.
+ *
+ * Skeletons of candidates inside nested scroll containers are appended to the nearest one, so they scroll and are
+ * clipped with the content. Skeletons of `fixed` and `sticky` candidates are repositioned when anything scrolls. If the
+ * root `[data-sk-lazy]` is enabled, skeletons are only generated for candidates within the root `[data-sk-lazy-margin]`
+ * of the viewport.
+ *
+ * Root `[data-sk-announce]` and `[data-sk-announce-end]` are announced through a shared polite live region.
+ *
+ * Bubbling `sk:inject` and `sk:eject` events are dispatched on the root when skeletons are displayed and hidden, and
+ * User Timing entries are emitted if the root `[data-sk-metrics]` is enabled, see `getLoadingStats`.
+ *
+ * `template[data-sk-repeat]` contents are cloned before the template while skeletons are displayed, so empty lists
+ * still display placeholder skeletons, see {@linkcode expandRepeats}.
+ *
+ * Once loaded, skeletons are handed off to the content during the root `[data-sk-out]`, using the root
+ * `[data-sk-out-mode]` transition. Handoff animations are cancelled if skeletons are displayed again.
+ *
+ * Skeletons are updated incrementally once per animation frame: resized, edited, and inserted candidates are measured
+ * again, moved candidates only have their skeletons repositioned, and skeleton elements are reused from a pool.
  *
  * Skeleton side effects:
  * - `overlay.slot`: If required using `dataset` options.
  * - `overlay.dataset`: Prevent recursive skeleton computation.
  *
+ * In debug mode, the root is registered into the inspector panel appended to `document.body`, which describes and
+ * edits the options of hovered candidates, see `inspectSkeleton`. The inspector module is only loaded in debug mode.
+ *
  * A cleanup function is returned to unsubscribe listeners and remove the skeletons.
  *
  * @param element Root element to listen for skeleton candidates.
+ * @param debug Enable debug decorations and the inspector panel.
+ */
+export const injectSkeleton = (element: HTMLElement, debug?: boolean) =>
+    injectScopedSkeleton(configuration, element, debug)
+
+/**
+ * {@linkcode injectSkeleton} implementation using {@linkcode configuration}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element to listen for skeleton candidates.
  * @param debug Enable debug decorations.
  */
-export const injectSkeleton = (element: HTMLElement, debug?: boolean) => {
-    const id = element.dataset.skId ?? 'default'
+const injectScopedSkeleton = (configuration: SkeletonConfiguration, element: HTMLElement, debug?: boolean) => {
     const position = getComputedStyle(element).position
-    const implicitHide = Object.entries(configuration.elements)
-        .filter(([, options]) => options?.skT === 'none')
-        .map(([tag]) => tag)
-    const implicitShow = Object.entries(configuration.elements)
-        .filter(([, options]) => options?.skT && options.skT !== 'none')
-        .map(([tag]) => tag)
-    const selector = buildSelector(id, implicitHide, implicitShow)
+    const selector = rootSelector(configuration, element)
 
     let skeletonObserver: ResizeObserver | undefined
-    const skeletonElements = new Map<
+    let contentObserver: MutationObserver | undefined
+    let frame: number | undefined
+    let startTime: CSSNumberish | null = null
+    let rootSize = { width: 0, height: 0 }
+    let collect = true
+    // Css options are only read for new candidates, and for every candidate when the root resizes
+    let cssCache = new WeakMap<Element, Partial<SkeletonOptions>>()
+    const candidates = new Map<
         HTMLElement,
         {
             opacity: string
             visibility: string
             options: SkeletonOptions
-            rect: DOMRect
-            positions: DOMRect[]
+            offset?: { x: number; y: number }
+            size?: { width: number; height: number }
+            measured?: ReturnType<typeof measureCandidate>
             skeletons: HTMLElement[]
+            host: HTMLElement
+            pinned: boolean
         }
     >()
+    const hosts = new Map<HTMLElement, string>()
+    const near = new Set<Element>()
+    const changed = new Set<Element>()
+    const pool: HTMLElement[] = []
+    const owned = new WeakSet<Node>()
+
+    let inlinePosition = element.style.position
+    let ariaBusy: string | null = null
+    let removeRepeats: (() => void) | undefined
+    let handoff: { animations: Animation[]; skeletons: HTMLElement[] } | undefined
+    let tracked: ((options: SkeletonOptions) => void) | undefined
+    let nearObserver: IntersectionObserver | undefined
+    let pinned = false
+    let inspected: InspectorRoot | undefined
+    let inspector: typeof import('./inspector.ts') | undefined
+    let uninspect: (() => void) | undefined
+
+    const schedule = () => void (frame ??= requestAnimationFrame(flush))
+
+    const release = (el: HTMLElement) => {
+        const { opacity, visibility, skeletons } = candidates.get(el)!
+        el.style.opacity = opacity
+        el.style.visibility = visibility
+        skeletons.forEach(skeleton => skeleton.remove())
+        pool.push(...skeletons.splice(0))
+    }
+
+    const flush = () => {
+        frame = undefined
+        if (collect) {
+            collect = false
+            const collected = new Map(
+                collectCandidates(configuration, element, selector, cssCache).map(({ element, options }) => [
+                    element,
+                    options,
+                ]),
+            )
+            candidates
+                .keys()
+                .filter(el => !collected.has(el))
+                .toArray()
+                .forEach(el => {
+                    release(el)
+                    candidates.delete(el)
+                    near.delete(el)
+                    nearObserver?.unobserve(el)
+                    if (el !== element) skeletonObserver!.unobserve(el)
+                })
+            const place = createPlacement(configuration, element, collected)
+            collected.forEach((options, el) => {
+                const candidate = candidates.get(el)
+                if (candidate && !sameOptions(candidate.options, options)) changed.add(el)
+                if (candidate) return void Object.assign(candidate, { options }, place(el))
+                candidates.set(el, {
+                    opacity: el.style.opacity,
+                    visibility: el.style.visibility,
+                    options,
+                    skeletons: [],
+                    ...place(el),
+                })
+                changed.add(el)
+                nearObserver?.observe(el)
+                skeletonObserver!.observe(el)
+            })
+            pinned = candidates.values().some(candidate => candidate.pinned)
+        }
+
+        const container = element.getBoundingClientRect()
+        const resized = container.width !== rootSize.width || container.height !== rootSize.height
+        rootSize = { width: container.width, height: container.height }
+        const rootOptions = resolveOptions(configuration, element, false, cssCache)
+        const origins = new Map<HTMLElement, DOMRect>()
+        const origin = (host: HTMLElement) => {
+            if (origins.has(host)) return origins.get(host)!
+            const rect = host === element ? container : host.getBoundingClientRect()
+            const x = rect.x + host.clientLeft - host.scrollLeft
+            const y = rect.y + host.clientTop - host.scrollTop
+            return origins.set(host, new DOMRect(x, y)).get(host)!
+        }
+        const updates = candidates
+            .entries()
+            .filter(([el, candidate]) => {
+                if (nearObserver && !near.has(el)) {
+                    const measured = !!candidate.measured
+                    candidate.measured = undefined
+                    return measured
+                }
+                const rect = el.getBoundingClientRect()
+                const offset = { x: rect.x - container.x, y: rect.y - container.y }
+                const moved = offset.x !== candidate.offset?.x || offset.y !== candidate.offset?.y
+                candidate.offset = offset
+                candidate.size = { width: rect.width, height: rect.height }
+                if (changed.has(el))
+                    candidate.measured = measureCandidate(configuration, el, candidate.options, rect, el === element)
+                else if (candidate.measured && moved) candidate.measured.rect = rect
+                else return resized && !!candidate.measured
+                return true
+            })
+            .toArray()
+        changed.clear()
+
+        updates.forEach(([el, { opacity, visibility, measured, skeletons, host }]) => {
+            el.style.opacity = measured && !debug && el !== element ? '0' : opacity
+            el.style.visibility = measured && !debug && el === element ? 'hidden' : visibility
+            const positions = measured && measured.options.skT !== 'hide' ? measured.positions : []
+            const resolve = (position: DOMRect, origin: DOMRect) =>
+                resolveSkeleton(measured!.options, position, measured!.rect, origin, measured!.vertical)
+            skeletons.splice(positions.length).forEach(skeleton => (skeleton.remove(), pool.push(skeleton)))
+            if (positions.length && host !== element && !hosts.has(host)) {
+                hosts.set(host, host.style.position)
+                if (getComputedStyle(host).position === 'static') host.style.position = 'relative'
+            }
+            positions.forEach((position, index) => {
+                const entry = resolve(position, origin(host))
+                const skeleton = createSkeleton(configuration, entry, !!debug, skeletons[index] ?? pool.pop())
+                animateSkeleton(skeleton, resolve(position, container), rootOptions, container, startTime)
+                owned.add((skeletons[index] = skeleton))
+                if (skeleton.parentElement !== host) host.append(skeleton)
+            })
+        })
+        if (inspected && updates.length) inspector?.refreshInspector(inspected)
+    }
+
+    const onScroll = () => pinned && schedule()
+
+    const skeletons = () =>
+        candidates.entries().flatMap(([el, { skeletons }]) => skeletons.map(skeleton => [skeleton, el] as const))
+
+    const describeStatus = (el: HTMLElement, options: SkeletonOptions) => {
+        const candidate = candidates.get(el)
+        if (candidate && nearObserver && !near.has(el)) return 'included, not near the viewport'
+        if (candidate) return `included, ${candidate.skeletons.length} skeleton(s)`
+        const shadowRoot = el.getRootNode() === element.getRootNode() ? undefined : (el.getRootNode() as ShadowRoot)
+        const excluded = rootRules(configuration, element, shadowRoot ? '' : ':scope ').find(({ rule }) =>
+            [...(shadowRoot ?? element).querySelectorAll(rule)].includes(el),
+        )
+        if (el !== element && excluded) return `excluded, ${excluded.reason}`
+        if (!skeletonObserver) return 'root is not loading'
+        if (options.skT === 'none') return 'excluded, css skT none'
+        if (coveredByParentLines(configuration, el, options)) return 'included in parent text lines'
+        return 'excluded, inside a css typed element'
+    }
+
+    const describe = (el: HTMLElement): InspectorDescription => {
+        const resolved = resolveOptions(configuration, el, el !== element)
+        const layers: InspectorDescription['layers'] = [
+            ['defaults', configuration.defaults],
+            [`elements.${el.localName}`, el !== element ? configuration.elements[el.localName] : undefined],
+            ['css', readCssOptions<SkeletonOptions>(el, cssOptions)],
+            ['dataset', { ...el.dataset }],
+        ]
+        return { layers, resolved, status: describeStatus(el, resolved) }
+    }
+
+    const settleHandoff = () => {
+        handoff?.animations.forEach(animation => animation.cancel())
+        handoff?.skeletons.forEach(skeleton => skeleton.remove())
+        handoff = undefined
+        if (skeletonObserver) return
+        hosts.forEach((position, host) => (host.style.position = position))
+        hosts.clear()
+    }
 
     const inject = () => {
         if (skeletonObserver) return
+        settleHandoff()
+        adoptTheme()
+        inlinePosition = element.style.position
+        ariaBusy = element.getAttribute('aria-busy')
         if (!position || position === 'static') element.style.position = 'relative'
-        const observer = new ResizeObserver(() => {
-            skeletonElements.entries().forEach(([el, { skeletons }]) => {
-                el.style.opacity = skeletonElements.get(el)!.opacity
-                el.style.visibility = skeletonElements.get(el)!.visibility
-                skeletons.forEach(skeleton => skeleton.remove())
-            })
-            skeletonElements.clear()
-
-            const candidates = [
-                ...[element].filter(element => element.matches(selector)),
-                ...element.querySelectorAll<HTMLElement>(selector),
-            ]
-            const { defaults, elements } = configuration
-            const container = element.getBoundingClientRect()
-            candidates.forEach(element => {
-                const opacity = element.style.opacity
-                const visibility = element.style.visibility
-                const options = { ...defaults, ...elements[element.localName], ...element.dataset }
-                const rect = element.getBoundingClientRect()
-                const positions = computePositions(element, options, rect)
-                if (!positions?.length) return
-                skeletonElements.set(element, { opacity, visibility, options, rect, positions, skeletons: [] })
-            })
-            skeletonElements.entries().forEach(([el, { options, rect, positions }]) => {
-                if (!debug && el !== element) el.style.opacity = '0'
-                if (!debug && el === element) el.style.visibility = 'hidden'
-                if (options.skT === 'hide') return
-                const skeletons = positions.map(position => createSkeleton(options, position, rect, container, !!debug))
-                element.append(...(skeletonElements.get(el)!.skeletons = skeletons))
-                observer.observe(el)
+        element.ariaBusy = 'true'
+        const options = resolveOptions(configuration, element)
+        announce(options.skAnnounce)
+        tracked = trackLoading(element, 'sk', options, options.skMetrics === 'true')
+        startTime = document.timeline.currentTime
+        removeRepeats = expandRepeats(element, selector)
+        if (options.skLazy === 'true')
+            nearObserver = new IntersectionObserver(
+                entries => {
+                    entries.forEach(({ target, isIntersecting }) => {
+                        if (isIntersecting) near.add(target)
+                        else near.delete(target)
+                        changed.add(target)
+                    })
+                    schedule()
+                },
+                { rootMargin: options.skLazyMargin },
+            )
+        document.addEventListener('scroll', onScroll, { capture: true, passive: true })
+        skeletonObserver = new ResizeObserver(entries => {
+            entries
+                .filter(({ target, borderBoxSize: [size] }) => {
+                    const known = candidates.get(target as HTMLElement)?.size
+                    return !known || known.width !== size.inlineSize || known.height !== size.blockSize
+                })
+                .forEach(({ target }) => changed.add(target))
+            // Root resizes may switch media and container queries, so css options are read again
+            if (entries.some(({ target }) => target === element)) {
+                cssCache = new WeakMap()
+                collect = true
+            }
+            schedule()
+        })
+        contentObserver = new MutationObserver(records => {
+            records.forEach(record => {
+                const nodes = [...record.addedNodes, ...record.removedNodes]
+                if (record.type === 'childList' && nodes.every(node => owned.has(node))) return
+                if (record.type === 'attributes' && record.target === element)
+                    candidates.keys().forEach(el => changed.add(el))
+                collect = true
+                let target = record.target instanceof Element ? record.target : record.target.parentElement
+                for (; target instanceof HTMLElement; target = target.parentElement) {
+                    changed.add(target)
+                    if (target === element || !isInlineContent(configuration, target)) break
+                }
             })
+            schedule()
+        })
+        skeletonObserver.observe(element)
+        contentObserver.observe(element, {
+            childList: true,
+            subtree: true,
+            characterData: true,
+            attributes: true,
+            attributeFilter: optionAttributes,
         })
-        observer.observe(element)
-        skeletonObserver = observer
+        collect = true
+        schedule()
     }
 
-    const eject = () => {
-        skeletonObserver?.disconnect()
+    const eject = (animate = false) => {
+        if (!skeletonObserver) return
+        if (frame !== undefined) cancelAnimationFrame(frame)
+        frame = undefined
+        skeletonObserver.disconnect()
+        contentObserver!.disconnect()
+        nearObserver?.disconnect()
         skeletonObserver = undefined
-        element.style.position = position
-        skeletonElements.entries().forEach(([el, { skeletons }]) => {
-            el.style.opacity = skeletonElements.get(el)!.opacity
-            el.style.visibility = skeletonElements.get(el)!.visibility
-            skeletons.forEach(skeleton => skeleton.remove())
+        contentObserver = undefined
+        nearObserver = undefined
+        near.clear()
+        document.removeEventListener('scroll', onScroll, { capture: true })
+        element.style.position = inlinePosition
+        element.ariaBusy = ariaBusy
+        removeRepeats?.()
+        removeRepeats = undefined
+        const options = resolveOptions(configuration, element)
+        const { skOut, skOutMode, skOutStagger } = options
+        const duration = animate && !prefersReducedMotion() ? +skOut! : 0
+        if (duration > 0) handoff = { animations: [], skeletons: [] }
+        const container = element.getBoundingClientRect()
+        let order = 0
+        // Candidates are collected incrementally, so they are sorted in document order for the stagger delays
+        const ordered = candidates
+            .entries()
+            .toArray()
+            .sort(([a], [b]) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_PRECEDING ? 1 : -1))
+        ordered.forEach(([el, { opacity, visibility, offset, measured, skeletons }]) => {
+            if (!handoff || !measured) return release(el)
+            el.style.opacity = opacity
+            el.style.visibility = visibility
+            const delay = skOutMode === 'stagger' ? order++ * +skOutStagger! : 0
+            const timing = { duration, delay, easing: 'ease-out' }
+            const fadeOut = (skeleton: HTMLElement) =>
+                skeleton.animate({ opacity: [1, 0] }, { ...timing, fill: 'forwards' })
+            handoff.animations.push(...skeletons.map(fadeOut))
+            handoff.skeletons.push(...skeletons.splice(0))
+            if (el === element) return
+            const keyframes: PropertyIndexedKeyframes = { opacity: [0, +getComputedStyle(el).opacity] }
+            const rect = el.getBoundingClientRect()
+            const [x, y] = [rect.x - container.x, rect.y - container.y]
+            const [scaleX, scaleY] = [measured.rect.width / rect.width, measured.rect.height / rect.height]
+            const morph = offset && (offset.x !== x || offset.y !== y || scaleX !== 1 || scaleY !== 1)
+            if (skOutMode === 'flip' && morph && rect.width && rect.height) {
+                keyframes.transform = [
+                    `translate(${offset.x - x}px, ${offset.y - y}px) scale(${scaleX}, ${scaleY})`,
+                    'none',
+                ]
+                keyframes.transformOrigin = ['0 0', '0 0']
+            }
+            handoff.animations.push(el.animate(keyframes, { ...timing, fill: 'backwards' }))
         })
-        skeletonElements.clear()
+        candidates.clear()
+        changed.clear()
+        pool.length = 0
+        rootSize = { width: 0, height: 0 }
+        const current = handoff
+        const finished = current?.animations.map(animation => animation.finished)
+        Promise.all(finished ?? []).then(
+            () => current === handoff && settleHandoff(),
+            () => {},
+        )
+        tracked?.(options)
+        tracked = undefined
+    }
+
+    const loadingState = createLoadingState(inject, () => {
+        eject(true)
+        announce(resolveOptions(configuration, element).skAnnounceEnd)
+    })
+    const update = () => {
+        const options = resolveOptions(configuration, element)
+        loadingState.set(options.sk === 'true', +options.skDelay!, +options.skMin!)
     }
 
-    const enabledObserver = new MutationObserver(() => (element.dataset.sk === 'true' ? inject() : eject()))
-    const removedObserver = new ResizeObserver(() => !element.parentElement && eject())
+    const enabledObserver = new MutationObserver(update)
+    const removedObserver = new ResizeObserver(() => {
+        if (element.parentElement) return
+        loadingState.reset()
+        eject()
+    })
     enabledObserver.observe(element, { attributes: true, attributeFilter: ['data-sk'] })
     removedObserver.observe(element)
-    if (element.dataset.sk === 'true') inject()
+    update()
+    if (debug) inspected = { skeletons, describe }
+    if (inspected)
+        import('./inspector.ts').then(module => {
+            if (!inspected) return
+            inspector = module
+            uninspect = module.inspectSkeleton(element, inspected)
+        })
 
     return () => {
+        inspected = undefined
+        uninspect?.()
         enabledObserver.disconnect()
         removedObserver.disconnect()
+        loadingState.reset()
         eject()
+        settleHandoff()
     }
 }
 
 /**
- * Generate a css selector that filters out elements that won't participate in the skeleton generation.
+ * Capture the skeletons of {@linkcode element} into a serializable {@linkcode SkeletonSnapshot}.
+ *
+ * Positions are measured from the live DOM, so the element content must be rendered. The snapshot can be restored
+ * later using {@linkcode replaySkeleton} or {@linkcode renderSkeletonHtml}, even before the content is available.
+ *
+ * @param element Root element to capture skeleton candidates.
+ */
+export const captureSkeleton = (element: HTMLElement) => captureScopedSkeleton(configuration, element)
+
+/**
+ * {@linkcode captureSkeleton} implementation using {@linkcode configuration}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element to capture skeleton candidates.
+ */
+const captureScopedSkeleton = (configuration: SkeletonConfiguration, element: HTMLElement): SkeletonSnapshot => {
+    const container = element.getBoundingClientRect()
+    const skeletons = measureCandidates(configuration, element, rootSelector(configuration, element))
+        .filter(({ options }) => options.skT !== 'hide')
+        .flatMap(({ options, rect, positions, vertical }) =>
+            positions.map(position => resolveSkeleton(options, position, rect, container, vertical)),
+        )
+    const skId = element.dataset.skId ?? 'default'
+    return { version: snapshotVersion, skId, width: container.width, height: container.height, skeletons }
+}
+
+/**
+ * Display the skeletons of a {@linkcode SkeletonSnapshot} in {@linkcode element}.
+ *
+ * Elements side effects:
+ * - `element.children`: Skeletons appended.
+ * - `element.style.position`: Set to `relative`.
+ * - `element.style.minHeight`: Set to the snapshot height.
+ * - `element.style.visibility`: Set to `hidden`.
+ * - `element.ariaBusy`: Set to `true`.
+ *
+ * Snapshots of an unknown format version, like snapshots persisted by another release, are ignored.
+ *
+ * A cleanup function is returned to remove the skeletons and restore the element styles.
+ *
+ * @param element Root element to display the skeletons.
+ * @param snapshot Snapshot created with {@linkcode captureSkeleton}.
+ * @param debug Enable debug decorations.
+ */
+export const replaySkeleton = (element: HTMLElement, snapshot: SkeletonSnapshot, debug?: boolean) =>
+    replayScopedSkeleton(configuration, element, snapshot, debug)
+
+/**
+ * {@linkcode replaySkeleton} implementation using {@linkcode configuration}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element to display the skeletons.
+ * @param snapshot Snapshot created with {@linkcode captureSkeleton}.
+ * @param debug Enable debug decorations.
+ */
+const replayScopedSkeleton = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    snapshot: SkeletonSnapshot,
+    debug?: boolean,
+) => {
+    if (snapshot.version !== snapshotVersion) return () => {}
+    adoptTheme()
+    const { position, minHeight, visibility } = element.style
+    const ariaBusy = element.getAttribute('aria-busy')
+    const computedPosition = getComputedStyle(element).position
+    if (!computedPosition || computedPosition === 'static') element.style.position = 'relative'
+    element.style.minHeight = `${snapshot.height}px`
+    if (!debug) element.style.visibility = 'hidden'
+    element.ariaBusy = 'true'
+    const rootOptions = resolveOptions(configuration, element)
+    const startTime = document.timeline.currentTime
+    const skeletons = snapshot.skeletons.map(entry =>
+        animateSkeleton(createSkeleton(configuration, entry, !!debug), entry, rootOptions, snapshot, startTime),
+    )
+    element.append(...skeletons)
+
+    return () => {
+        skeletons.forEach(skeleton => skeleton.remove())
+        Object.assign(element.style, { position, minHeight, visibility })
+        element.ariaBusy = ariaBusy
+    }
+}
+
+/**
+ * Create a skeleton tools instance with its own configuration, isolated from the module configuration and other
+ * instances.
+ *
+ * @param overrides Configuration parts to override, unset parts use the built-in configuration.
+ */
+export const createSkeletonTools = (overrides: Partial<SkeletonConfiguration> = {}) => {
+    const configuration = createConfiguration()
+    updateConfiguration(configuration, overrides)
+    return {
+        /** Set instance configuration, see {@linkcode setSkeletonConfiguration}. */
+        setSkeletonConfiguration: (overrides: Partial<SkeletonConfiguration>) =>
+            updateConfiguration(configuration, overrides),
+        /** Inject skeletons using the instance configuration, see {@linkcode injectSkeleton}. */
+        injectSkeleton: (element: HTMLElement, debug?: boolean) => injectScopedSkeleton(configuration, element, debug),
+        /** Capture skeletons using the instance configuration, see {@linkcode captureSkeleton}. */
+        captureSkeleton: (element: HTMLElement) => captureScopedSkeleton(configuration, element),
+        /** Replay skeletons using the instance configuration, see {@linkcode replaySkeleton}. */
+        replaySkeleton: (element: HTMLElement, snapshot: SkeletonSnapshot, debug?: boolean) =>
+            replayScopedSkeleton(configuration, element, snapshot, debug),
+    }
+}
+
+/**
+ * Render a {@linkcode SkeletonSnapshot} into static html and css, without requiring any DOM API.
+ *
+ * The markup mimics the default {@linkcode configuration.factory}, it is meant to be server rendered or inlined into
+ * the app shell, so skeletons are displayed before any script runs. An empty string is returned for snapshots of an
+ * unknown format version.
+ *
+ * @param snapshot Snapshot created with {@linkcode captureSkeleton}.
+ */
+export const renderSkeletonHtml = (snapshot: SkeletonSnapshot) => {
+    if (snapshot.version !== snapshotVersion) return ''
+    const skId = escapeHtml(snapshot.skId)
+    const css = [
+        '@keyframes sk-snapshot-pulse { 50% { opacity: 0.5 } }',
+        '[data-sk-snapshot] { position: relative }',
+        `[data-sk-snapshot] > div { background: ${themeVar('--sk-color')}; animation: sk-snapshot-pulse 2s ease-in-out infinite }`,
+        '@media (prefers-reduced-motion: reduce) { [data-sk-snapshot] > div { animation: none } }',
+    ].join('\n')
+    const skeletons = snapshot.skeletons.map(entry => {
+        const style = Object.entries(skeletonStyle(entry)).map(([property, value]) => `${property}: ${value}`)
+        return `<div data-sk-t="none" aria-hidden="true" style="${escapeHtml(style.join('; '))}"></div>`
+    })
+    const style = `min-height: ${snapshot.height}px`
+    return `<style>${css}</style><div data-sk-snapshot="${skId}" aria-busy="true" style="${style}">${skeletons.join('')}</div>`
+}
+
+/**
+ * Check if two resolved {@linkcode SkeletonOptions} are equal.
+ *
+ * @param a Options.
+ * @param b Options.
+ */
+const sameOptions = (a: SkeletonOptions, b: SkeletonOptions) => {
+    const keys = Object.keys({ ...a, ...b }) as (keyof SkeletonOptions)[]
+    return keys.every(key => a[key] === b[key])
+}
+
+/**
+ * Build the candidates selector of a root {@linkcode element} using its `data-sk-id` and {@linkcode configuration}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element.
+ * @param scope Selector rules prefix, shadow roots must use an empty scope.
+ */
+const rootSelector = (configuration: SkeletonConfiguration, element: HTMLElement, scope = ':scope ') => {
+    const rules = rootRules(configuration, element, scope).map(({ rule }) => rule)
+    return `:not(:is(${rules.join(',\n')}\n))`
+}
+
+/**
+ * Build the exclusion rules of a root {@linkcode element}'s candidates selector, see {@linkcode buildRules}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element.
+ * @param scope Selector rules prefix, shadow roots must use an empty scope.
+ */
+const rootRules = (configuration: SkeletonConfiguration, element: HTMLElement, scope = ':scope ') => {
+    const id = element.dataset.skId ?? 'default'
+    const implicitHide = Object.entries(configuration.elements)
+        .filter(([, options]) => options?.skT === 'none')
+        .map(([tag]) => tag)
+    const implicitShow = Object.entries(configuration.elements)
+        .filter(([, options]) => options?.skT && options.skT !== 'none')
+        .map(([tag]) => tag)
+    return buildRules(id, implicitHide, implicitShow, scope)
+}
+
+/**
+ * Generate css selector rules of elements that won't participate in the skeleton generation, with their reasons.
  *
  * The following conditions are used:
  * - Element is the root of a different `data-sk-id`.
@@ -211,114 +920,460 @@ export const injectSkeleton = (element: HTMLElement, debug?: boolean) => {
  * - Element in {@linkcode implicitNone} and it does not have a `data-sk`.
  * - Element is a descendant of {@linkcode implicitType} and it does not have a `data-sk`.
  *
- * The conditions above are inverted using css `:not` and `:is` selectors.
+ * The conditions above are inverted using css `:not` and `:is` selectors by {@linkcode rootSelector}.
  *
  * @param id Skeleton subtree ID.
  * @param implicitNone Element tags with implicit `data-sk="none"`.
  * @param implicitType Element tags with implicit `data-sk` not `"none"`.
+ * @param scope Selector rules prefix, ancestors conditions are limited to the query scope.
  */
-const buildSelector = (id: string, implicitNone: string[], implicitType: string[]) => `:not(:is(${[
-    `:scope [data-sk-id]:not([data-sk-id="${id}"])`,
-    `:scope [data-sk-id]:not([data-sk-id="${id}"]) *`,
-    ':scope [data-sk-t="none"]',
-    ':scope [data-sk-t]:not([data-sk-t="none"]) :not([data-sk-t])',
-    ...implicitNone.map(tag => `:scope ${tag}:not([data-sk-t])`),
-    ...implicitType.map(tag => `:scope ${tag}:not([data-sk-t]) :not([data-sk-t])`),
-].join(',\n')}
-))`
+const buildRules = (id: string, implicitNone: string[], implicitType: string[], scope: string) => [
+    { rule: `${scope}[data-sk-id]:not([data-sk-id="${id}"])`, reason: 'root of a different data-sk-id' },
+    { rule: `${scope}[data-sk-id]:not([data-sk-id="${id}"]) *`, reason: 'inside a different data-sk-id' },
+    { rule: `${scope}[data-sk-t="none"]`, reason: 'data-sk-t="none"' },
+    { rule: `${scope}[data-sk-t]:not([data-sk-t="none"]) :not([data-sk-t])`, reason: 'inside a typed element' },
+    ...implicitNone.map(tag => ({ rule: `${scope}${tag}:not([data-sk-t])`, reason: `implicit none <${tag}>` })),
+    ...implicitType.map(tag => ({
+        rule: `${scope}${tag}:not([data-sk-t]) :not([data-sk-t])`,
+        reason: `inside an implicitly typed <${tag}>`,
+    })),
+]
+
+/**
+ * Check if {@linkcode element} may have skeleton positions, such candidates are hidden while skeletons are displayed,
+ * see {@linkcode computePositions}.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Candidate element, not the root.
+ * @param options {@linkcode element}'s resolved options.
+ */
+const measurable = (configuration: SkeletonConfiguration, element: HTMLElement, options: SkeletonOptions) =>
+    !!options.skT ||
+    (element.localName.includes('-') && !walkedShadowRoot(element, options)) ||
+    inlineTextNodes(configuration, element).length > 0
 
 /**
  * Compute skeleton positions for a given {@linkcode element}.
  *
+ * Text positions are the rendered line boxes of the element inline content, see {@linkcode computeLines}. `avatar`
+ * and `icon` positions are a square of the element smaller side, centered, other types cover the element box.
+ * `media` elements rendered as circles, like rounded square images, are typed as `avatar`, see {@linkcode isCircular}.
+ *
+ * Custom elements are covered by a single skeleton, unless they are the root, like `<sk-root>`.
+ *
+ * @param configuration Skeleton configuration.
  * @param element Element to compute skeleton decorations.
  * @param options {@linkcode element}'s resolved options.
  * @param rect {@linkcode element}'s rect.
+ * @param root {@linkcode element} is the root element.
  */
-const computePositions = (element: HTMLElement, options: SkeletonOptions, rect: DOMRect) => {
+const computePositions = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    options: SkeletonOptions,
+    rect: DOMRect,
+    root: boolean,
+) => {
     if (!rect.height || !rect.width) return
     const { skT } = options
-    const customElement = element.localName.includes('-')
-    const probablyText = element.childNodes.length > element.childElementCount
+    const customElement = !root && element.localName.includes('-') && !walkedShadowRoot(element, options)
+    const textNodes = inlineTextNodes(configuration, element)
+    const probablyText = textNodes.length > 0
     if (!skT && !customElement && !probablyText) return
+    const type = skT === 'media' && isCircular(element, rect) ? 'avatar' : skT
+    if (type === 'avatar' || type === 'icon') {
+        const side = Math.min(rect.width, rect.height)
+        const square = new DOMRect((rect.width - side) / 2, (rect.height - side) / 2, side, side)
+        return { positions: [square], text: false, vertical: false, type }
+    }
     if ((skT && skT !== 'text') || (skT === 'text' && !probablyText) || customElement)
-        return [new DOMRect(0, 0, rect.width, rect.height)]
-    return element.childNodes
-        .values()
-        .filter(node => node.nodeType === Node.TEXT_NODE && node.textContent?.length)
-        .flatMap(node => {
-            const lineHeight = parseFloat(getComputedStyle(element).lineHeight)
-            const range = document.createRange()
-            range.setStart(node, 0)
-            range.setEnd(node, 1)
-            const startRect = range.getBoundingClientRect()
-            range.setStart(node, node.textContent!.length - 1)
-            range.setEnd(node, node.textContent!.length)
-            const endRect = range.getBoundingClientRect()
-            const top = startRect.top - rect.top - (lineHeight - startRect.height) / 2
-            const left = startRect.left - rect.left
-            const right = rect.right - endRect.right
-            const lines = Math.round((endRect.bottom - startRect.top) / lineHeight)
-            return generate(
-                lines,
-                line =>
-                    new DOMRect(
-                        left * +(line === 0) + 0.1,
-                        top + line * lineHeight,
-                        rect.width - left * +(line === 0) - right * +(line === lines - 1),
-                        lineHeight,
-                    ),
-            )
+        return { positions: [new DOMRect(0, 0, rect.width, rect.height)], text: false, vertical: false, type }
+    const vertical = /^(vertical|sideways)/.test(getComputedStyle(element).writingMode)
+    return { positions: computeLines(textNodes, rect, vertical), text: true, vertical, type }
+}
+
+/**
+ * Check if {@linkcode element} is rendered as a circle: its box is roughly square, and rounded by half its side.
+ *
+ * @param element Element to check.
+ * @param rect {@linkcode element}'s rect.
+ */
+const isCircular = (element: HTMLElement, rect: DOMRect) => {
+    const side = Math.min(rect.width, rect.height)
+    if (Math.max(rect.width, rect.height) - side > side * 0.05) return false
+    const style = getComputedStyle(element)
+    const [radius] = (style.borderRadius || style.borderTopLeftRadius).split(' ')
+    return radius.endsWith('%') ? parseFloat(radius) >= 50 : parseFloat(radius) >= side / 2
+}
+
+/**
+ * Collect text nodes of {@linkcode element}'s inline content, including text inside inline children.
+ *
+ * Children that are not plain inline content are skipped, as they generate their own skeletons: non `inline`
+ * elements, custom elements, and elements with a skeleton type.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Element to collect text nodes.
+ */
+const inlineTextNodes = (configuration: SkeletonConfiguration, element: Element): Text[] =>
+    [...element.childNodes].flatMap(node => {
+        if (node instanceof Text) return /\S/.test(node.data) ? [node] : []
+        return node instanceof HTMLElement && isInlineContent(configuration, node)
+            ? inlineTextNodes(configuration, node)
+            : []
+    })
+
+/**
+ * Check if {@linkcode element} is plain inline content, which is part of its parent text lines.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Element to check.
+ */
+const isInlineContent = (configuration: SkeletonConfiguration, element: HTMLElement) =>
+    !element.dataset.skT &&
+    !configuration.elements[element.localName]?.skT &&
+    !element.localName.includes('-') &&
+    ['inline', 'contents'].includes(getComputedStyle(element).display)
+
+/**
+ * Compute line boxes of {@linkcode textNodes} from their rendered client rects, relative to {@linkcode rect}.
+ *
+ * Client rects are merged into a line when they overlap in the block axis, so each line box spans all its text
+ * fragments regardless of inline markup, direction (ltr or rtl), and `lineHeight`.
+ *
+ * @param textNodes Text nodes of the element inline content.
+ * @param rect Element's rect.
+ * @param vertical Element uses a vertical writing mode, lines are columns.
+ */
+const computeLines = (textNodes: Text[], rect: DOMRect, vertical: boolean) => {
+    const range = document.createRange()
+    const fragments = textNodes.flatMap(node => {
+        range.selectNodeContents(node)
+        return [...range.getClientRects()].filter(fragment => fragment.width && fragment.height)
+    })
+    const blockAxis = (box: DOMRect) => (vertical ? [box.left, box.right] : [box.top, box.bottom])
+    const lines: DOMRect[] = []
+    fragments.forEach(fragment => {
+        const [start, end] = blockAxis(fragment)
+        const index = lines.findIndex(line => {
+            const [lineStart, lineEnd] = blockAxis(line)
+            return Math.min(end, lineEnd) - Math.max(start, lineStart) > Math.min(end - start, lineEnd - lineStart) / 2
         })
-        .toArray()
+        if (index === -1) return lines.push(DOMRect.fromRect(fragment))
+        const line = lines[index]
+        const left = Math.min(line.left, fragment.left)
+        const top = Math.min(line.top, fragment.top)
+        const right = Math.max(line.right, fragment.right)
+        const bottom = Math.max(line.bottom, fragment.bottom)
+        lines[index] = new DOMRect(left, top, right - left, bottom - top)
+    })
+    return lines.map(line => new DOMRect(line.x - rect.x, line.y - rect.y, line.width, line.height))
 }
 
 /**
- * Create a skeleton element using {@linkcode configuration.factory} and add layout properties.
+ * Check if {@linkcode element} text is already covered by its parent element text lines.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Candidate element.
+ * @param options {@linkcode element}'s resolved options.
+ */
+const coveredByParentLines = (configuration: SkeletonConfiguration, element: HTMLElement, options: SkeletonOptions) => {
+    const parent = element.parentElement
+    if (options.skT || !parent || parent.dataset.skT === 'none' || !isInlineContent(configuration, element))
+        return false
+    return inlineTextNodes(configuration, parent).length > 0
+}
+
+/**
+ * Collect skeleton candidates of a root {@linkcode element} and their options, including open shadow roots content.
+ *
+ * Types set through css are applied like `[data-sk-t]`: `none` skips the candidate, other types skip its descendants.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element.
+ * @param selector Candidates selector built using {@linkcode rootSelector}.
+ * @param cssCache Css options cache, see {@linkcode resolveOptions}.
+ */
+const collectCandidates = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    selector: string,
+    cssCache?: WeakMap<Element, Partial<SkeletonOptions>>,
+) => {
+    let shadowSelector: string | undefined
+    const cssTyped: HTMLElement[] = []
+    const resolve = (candidates: Iterable<HTMLElement>): { element: HTMLElement; options: SkeletonOptions }[] =>
+        [...candidates].flatMap(candidate => {
+            if (!candidate.dataset.skT && cssTyped.some(typed => typed.contains(candidate))) return []
+            const options = resolveOptions(configuration, candidate, true, cssCache)
+            const implicit = candidate.dataset.skT ?? configuration.elements[candidate.localName]?.skT
+            if (options.skT === 'none') return []
+            if (candidate !== element && options.skT && !implicit) cssTyped.push(candidate)
+            if (candidate !== element && coveredByParentLines(configuration, candidate, options)) return []
+            const shadowRoot = walkedShadowRoot(candidate, options)
+            if (!shadowRoot) return [{ element: candidate, options }]
+            shadowSelector ??= rootSelector(configuration, element, '')
+            const shadowCandidates = shadowRoot.querySelectorAll<HTMLElement>(shadowSelector)
+            return [{ element: candidate, options }, ...resolve(shadowCandidates)]
+        })
+    return resolve([
+        ...[element].filter(element => element.matches(selector)),
+        ...element.querySelectorAll<HTMLElement>(selector),
+    ])
+}
+
+/**
+ * Create a placement resolver for the candidates of a root {@linkcode element}, ancestors are resolved once.
+ *
+ * Candidates are hosted by their nearest scroll container below the root, so their skeletons scroll and are clipped
+ * with the content, or by the root otherwise. Scroll containers that are, or are inside, candidates hidden while
+ * skeletons are displayed never host skeletons, as their `opacity` would hide the skeletons too. Candidates that are, or
+ * are inside, `fixed` or `sticky` elements are pinned, as they move when any ancestor scrolls.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element.
+ * @param candidates Collected candidates and their options.
+ */
+const createPlacement = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    candidates: Map<HTMLElement, SkeletonOptions>,
+) => {
+    type Placement = { host: HTMLElement; pinned: boolean; hidden: boolean }
+    const placements = new Map<Element, Placement>()
+    const parentOf = (el: Element) => el.parentElement ?? ((el.getRootNode() as ShadowRoot).host as HTMLElement)
+    const isPinned = ({ position }: CSSStyleDeclaration) => position === 'fixed' || position === 'sticky'
+    const isHidden = (el: HTMLElement) => candidates.has(el) && measurable(configuration, el, candidates.get(el)!)
+    const descendantsPlacement = (el: HTMLElement): Placement => {
+        if (el === element || !el) return { host: element, pinned: false, hidden: false }
+        if (placements.has(el)) return placements.get(el)!
+        const style = getComputedStyle(el)
+        const parent = descendantsPlacement(parentOf(el))
+        const hidden = parent.hidden || isHidden(el)
+        const scroll = /auto|scroll/.test(`${style.overflow} ${style.overflowX} ${style.overflowY}`)
+        const placement = {
+            host: scroll && !hidden ? el : parent.host,
+            pinned: parent.pinned || isPinned(style),
+            hidden,
+        }
+        return placements.set(el, placement).get(el)!
+    }
+    return (candidate: HTMLElement): Pick<Placement, 'host' | 'pinned'> => {
+        if (candidate === element) return { host: element, pinned: false }
+        const parent = descendantsPlacement(parentOf(candidate))
+        return { host: parent.host, pinned: parent.pinned || isPinned(getComputedStyle(candidate)) }
+    }
+}
+
+/**
+ * Measure a skeleton candidate, `undefined` is returned if it has no positions.
+ *
+ * Resolved options always include the skeleton type, inferred from the computed positions if not set.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Candidate element.
+ * @param options {@linkcode element}'s options.
+ * @param rect {@linkcode element}'s rect.
+ * @param root {@linkcode element} is the root element.
+ */
+const measureCandidate = (
+    configuration: SkeletonConfiguration,
+    element: HTMLElement,
+    options: SkeletonOptions,
+    rect: DOMRect,
+    root: boolean,
+) => {
+    const computed = computePositions(configuration, element, options, rect, root)
+    if (!computed?.positions.length) return
+    const { positions, text, vertical, type } = computed
+    return { options: { ...options, skT: type ?? (text ? 'text' : 'round') }, rect, positions, vertical }
+}
+
+/**
+ * Measure skeleton candidates of a root {@linkcode element}, candidates without positions are discarded.
+ *
+ * @param configuration Skeleton configuration.
+ * @param element Root element.
+ * @param selector Candidates selector built using {@linkcode rootSelector}.
+ */
+const measureCandidates = (configuration: SkeletonConfiguration, element: HTMLElement, selector: string) =>
+    collectCandidates(configuration, element, selector).flatMap(({ element: candidate, options }) => {
+        const rect = candidate.getBoundingClientRect()
+        const measured = measureCandidate(configuration, candidate, options, rect, candidate === element)
+        return measured ? [{ element: candidate, ...measured }] : []
+    })
+
+/**
+ * Insert `[data-sk-repeat]` clones of every `template` candidate of a root {@linkcode element}.
+ *
+ * Clones are hidden from assistive technologies. If the template sets `[data-sk-variance]`, elements with text of each
+ * clone are shrunk by a deterministic pseudo-random ratio, so placeholder rows do not look identical.
+ *
+ * A cleanup function is returned to remove the clones.
+ *
+ * @param element Root element.
+ * @param selector Candidates selector built using {@linkcode rootSelector}.
+ */
+const expandRepeats = (element: HTMLElement, selector: string) => {
+    const templates = element.querySelectorAll<HTMLTemplateElement>(`template[data-sk-repeat]${selector}`)
+    const clones = [...templates].flatMap(template => {
+        const { skRepeat = '0', skVariance = '0' } = template.dataset
+        return Array.from({ length: Math.max(0, Math.floor(+skRepeat)) }, (_, index) => {
+            const clone = template.content.cloneNode(true) as DocumentFragment
+            const nodes = [...clone.childNodes]
+            const elements = nodes.filter(node => node instanceof HTMLElement)
+            template.before(clone)
+            elements.forEach(element => element.setAttribute('aria-hidden', 'true'))
+            const texts = elements
+                .flatMap(element => [element, ...element.querySelectorAll<HTMLElement>('*')])
+                .filter(element => [...element.childNodes].some(node => node instanceof Text && /\S/.test(node.data)))
+            texts.forEach((text, position) => {
+                if (!+skVariance || text.dataset.skSx) return
+                const noise = Math.abs(Math.sin((index + 1) * 12.9898 + position * 78.233) * 43758.5453) % 1
+                text.dataset.skSx = `${1 - +skVariance * noise}`
+                text.dataset.skO ??= 'left'
+            })
+            return nodes
+        })
+    })
+    return () => clones.flat().forEach(clone => clone.remove())
+}
+
+/**
+ * Get {@linkcode element}'s shadow root if its content must generate skeletons.
+ *
+ * Only open shadow roots are walked, and only if `skShadow` is enabled and the host does not set a skeleton type.
+ *
+ * @param element Candidate element.
+ * @param options {@linkcode element}'s resolved options.
+ */
+const walkedShadowRoot = (element: HTMLElement, options: SkeletonOptions) =>
+    options.skShadow === 'true' && !options.skT ? element.shadowRoot : null
+
+/**
+ * Resolve a skeleton type, radius and position relative to the root element.
  *
  * @param options Element's resolved {@linkcode SkeletonOptions}.
  * @param skeletonRect Skeleton size.
  * @param elementRect Element position.
  * @param containerRect Container (root element) position.
- * @param debug Show debug decorations.
+ * @param vertical Skeleton is a vertical text line.
  */
-const createSkeleton = (
+const resolveSkeleton = (
     options: SkeletonOptions,
     skeletonRect: DOMRect,
     elementRect: DOMRect,
     containerRect: DOMRect,
+    vertical: boolean,
+): SkeletonSnapshotEntry => {
+    const { skT = 'round' } = options
+    const layout = entryOptions.filter(option => options[option] !== undefined).map(option => [option, options[option]])
+    return {
+        x: skeletonRect.x + elementRect.x - containerRect.x,
+        y: skeletonRect.y + elementRect.y - containerRect.y,
+        width: skeletonRect.width,
+        height: skeletonRect.height,
+        vertical,
+        options: { ...Object.fromEntries(layout), skT },
+        radius: radii[skT === 'round' || skT === 'media' ? options.skR! : skT],
+    }
+}
+
+/**
+ * Compute layout css properties (kebab-case) of a resolved skeleton.
+ *
+ * @param entry Resolved skeleton.
+ */
+const skeletonStyle = ({ x, y, width, height, vertical, options, radius }: SkeletonSnapshotEntry) => {
+    const { skT, skO, skTx, skTy, skZ = '1' } = options
+    const skSx = options.skSx !== '1' ? options.skSx : skT === 'text' && vertical ? '0.5' : '1'
+    const skSy = options.skSy !== '1' ? options.skSy : skT === 'text' && !vertical ? '0.5' : '1'
+    const { skW = `${width}px`, skH = `${height}px` } = options
+    return {
+        position: 'absolute',
+        left: `calc(${x}px + ${skTx})`,
+        top: `calc(${y}px + ${skTy})`,
+        width: skW,
+        height: skH,
+        'z-index': skZ,
+        scale: `${skSx} ${skSy}`,
+        'transform-origin': skO!,
+        'border-radius': radius,
+        visibility: 'visible',
+    }
+}
+
+/**
+ * Create a skeleton element using {@linkcode configuration.factory} and add layout properties.
+ *
+ * @param configuration Skeleton configuration.
+ * @param entry Resolved skeleton.
+ * @param debug Show debug decorations.
+ * @param skeleton Previously created skeleton to reuse, its layout properties are overwritten.
+ */
+const createSkeleton = (
+    configuration: SkeletonConfiguration,
+    entry: SkeletonSnapshotEntry,
     debug: boolean,
+    skeleton = configuration.factory(),
 ) => {
-    const { skT: skM = skeletonRect.left > 0 ? 'text' : 'round' } = options
-    const { skR, skO, skSx, skTx, skTy } = options
-    const skSy = options.skSy !== '1' ? options.skSy : skM === 'text' ? '0.5' : '1'
-    const { skW = `${skeletonRect.width}px`, skH = `${skeletonRect.height}px` } = options
-    const skeleton = configuration.factory()
     skeleton.dataset.skT = 'none'
-    skeleton.style.position = 'absolute'
-    skeleton.style.left = `calc(${skeletonRect.x + elementRect.x - containerRect.x}px + ${skTx})`
-    skeleton.style.top = `calc(${skeletonRect.y + elementRect.y - containerRect.y}px + ${skTy})`
-    skeleton.style.width = skW
-    skeleton.style.height = skH
-    skeleton.style.zIndex = options.skZ!
-    skeleton.style.scale = `${skSx} ${skSy}`
-    skeleton.style.transformOrigin = skO!
-    skeleton.style.zIndex = '1'
-    skeleton.style.borderRadius = radii[skM === 'round' ? skR! : skM]
-    skeleton.style.visibility = 'visible'
+    skeleton.setAttribute('aria-hidden', 'true')
+    Object.entries(skeletonStyle(entry)).forEach(([property, value]) => skeleton.style.setProperty(property, value))
     if (debug) {
         skeleton.inert = true
         skeleton.style.opacity = '0.5'
-        skeleton.style.outline = `1px ${skM === 'text' ? 'dashed' : 'solid'} red`
+        skeleton.style.outline = `1px ${entry.options.skT === 'text' ? 'dashed' : 'solid'} red`
     }
     return skeleton
 }
 
 /**
- * Return a generator that yields values from `fn` function for `count` iterations.
+ * Replace {@linkcode skeleton}'s factory animations with the root shared animation, if any.
+ *
+ * Every animation of a root starts at the same {@linkcode startTime}, so skeletons stay in phase even after being
+ * recreated. `wave` gradients are positioned relative to the root, sweeping continuously across skeletons.
  *
- * @param count Number of iterations.
- * @param fn Producer function.
+ * @param skeleton Skeleton element.
+ * @param entry Resolved skeleton.
+ * @param rootOptions Root element's resolved {@linkcode SkeletonOptions}.
+ * @param rootSize Root element size.
+ * @param startTime Root animations start time.
  */
-function* generate<T>(count: number, fn: (index: number) => T) {
-    for (let i = 0; i < count; i++) yield fn(i)
+const animateSkeleton = (
+    skeleton: HTMLElement,
+    entry: SkeletonSnapshotEntry,
+    rootOptions: SkeletonOptions,
+    rootSize: { width: number; height: number },
+    startTime: CSSNumberish | null,
+) => {
+    const { skA, skAd, skAs } = rootOptions
+    if (!skA) return skeleton
+    skeleton.getAnimations().forEach(animation => animation.cancel())
+    if (skA === 'none' || prefersReducedMotion()) return skeleton
+    const timing = { duration: +skAs!, iterations: Infinity }
+    if (skA === 'pulse') {
+        skeleton.animate({ opacity: [1, 0.5, 1] }, { ...timing, easing: 'ease-in-out' }).startTime = startTime
+        return skeleton
+    }
+    const vertical = skAd === 'down' || skAd === 'up'
+    const length = vertical ? rootSize.height : rootSize.width
+    const offset = vertical ? entry.y : entry.x
+    const band = length / 2
+    const positions = [-offset - band, length - offset].map(value => (vertical ? `0 ${value}px` : `${value}px 0`))
+    if (skAd === 'left' || skAd === 'up') positions.reverse()
+    const highlight = themeVar('--sk-highlight')
+    skeleton.style.backgroundImage = `linear-gradient(${vertical ? 180 : 90}deg, transparent, ${highlight}, transparent)`
+    skeleton.style.backgroundRepeat = 'no-repeat'
+    skeleton.style.backgroundSize = vertical ? `100% ${band}px` : `${band}px 100%`
+    skeleton.animate({ backgroundPosition: positions }, { ...timing, easing: 'linear' }).startTime = startTime
+    return skeleton
 }
+
+/**
+ * Escape html special characters of text and attribute values.
+ *
+ * @param value Value to escape.
+ */
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!)
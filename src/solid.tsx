@@ -14,14 +14,17 @@ import {
     Suspense,
     useContext,
 } from 'solid-js'
-import { injectOverlay, type OverlayOptions } from './overlay.ts'
-import { injectSkeleton, type SkeletonOptions } from './skeleton.ts'
+import type { OverlayElement, SkeletonRootElement } from './elements.ts'
+import { acquireGlobalOverlay, type OverlayOptions } from './overlay.ts'
+import type { SkeletonOptions } from './skeleton.ts'
+import { defaultLoadTools, type LoadTools } from './tools.ts'
 import { OptionsToAttributes } from './util.ts'
 
 declare module 'solid-js' {
     namespace JSX {
         interface IntrinsicElements {
-            'sk-overlay': HTMLAttributes<HTMLElement>
+            'sk-root': HTMLAttributes<SkeletonRootElement> & { loading?: boolean; debug?: boolean }
+            'sk-overlay': HTMLAttributes<OverlayElement> & { active?: boolean }
         }
 
         interface HTMLAttributes<T extends EventTarget>
@@ -33,14 +36,32 @@ declare module 'solid-js' {
 }
 
 /**
- * Inject an overlay into the parent of this element using {@linkcode injectOverlay}.
+ * Load tools context, components inject skeletons and overlays using the nearest {@linkcode LoadToolsProvider}
+ * instance, or the default instance.
+ */
+export const LoadToolsContext = createContext<LoadTools>(defaultLoadTools)
+
+/**
+ * Provide a load tools instance created with `createLoadTools` to {@linkcode ShowSkeleton},
+ * {@linkcode SuspenseSkeleton}, {@linkcode Overlay} and {@linkcode ShowOverlay} descendants.
+ *
+ * @param props.tools Load tools instance.
+ * @param props.children Children using the instance.
+ */
+export const LoadToolsProvider = (props: { tools: LoadTools; children?: JSX.Element }) => (
+    <LoadToolsContext.Provider value={props.tools}>{props.children}</LoadToolsContext.Provider>
+)
+
+/**
+ * Inject an overlay into the parent of this element using `injectOverlay`.
  *
  * @param props {@linkcode OverlayOptions}.
  * @param props.when Alternative to {@linkcode OverlayOptions.ov} to mimic {@linkcode Show} (higher priority).
  */
 export const Overlay = (props: OverlayOptions & { when?: boolean }) => {
     const [, overlayProps] = splitProps(props, ['when'])
-    const [stub, setStub] = createSignal<HTMLDivElement>()
+    const { injectOverlay } = useContext(LoadToolsContext)
+    const [stub, setStub] = createSignal<HTMLTemplateElement>()
     const parent = createMemo(() => stub()?.parentElement)
     const [cleanup, setCleanup] = createSignal<() => void>()
 
@@ -49,18 +70,18 @@ export const Overlay = (props: OverlayOptions & { when?: boolean }) => {
         if (!parent()) return
         const options: OverlayOptions = { ...overlayProps, ov: `${props.when ?? props.ov ?? false}` }
         Object.assign(parent()!.dataset, options)
-        parent()!.inert = options.ov === 'true'
+        parent()!.inert = options.ov === 'true' && !options.ovCancel
     })
 
     onCleanup(() => cleanup?.())
 
-    return <sk-overlay ref={setStub} style={{ display: 'none' }} />
+    return <template ref={setStub} />
 }
 
 /**
- * SolidJS {@linkcode Show}-like wrapper for {@linkcode injectOverlay}.
+ * SolidJS {@linkcode Show}-like wrapper for `injectOverlay`.
  *
- * The wrapper also make {@linkcode children} `inert` if the overlay is enabled.
+ * The wrapper also make {@linkcode children} `inert` if the overlay is enabled, unless it has a cancel button.
  *
  * @param props {@linkcode OverlayOptions}.
  * @param props.when Alternative to {@linkcode OverlayOptions.ov} to mimic {@linkcode Show} (higher priority).
@@ -68,6 +89,7 @@ export const Overlay = (props: OverlayOptions & { when?: boolean }) => {
  */
 export const ShowOverlay = (props: OverlayOptions & { when?: boolean; children?: JSX.Element }) => {
     const [, overlayProps] = splitProps(props, ['children'])
+    const { injectOverlay } = useContext(LoadToolsContext)
     const resolved = children(() => props.children)
     const elements = createMemo(() => resolved.toArray().filter(element => element instanceof HTMLElement))
     const record = new Map<HTMLElement, () => void>()
@@ -82,7 +104,7 @@ export const ShowOverlay = (props: OverlayOptions & { when?: boolean; children?:
     createComputed(() => {
         const options: OverlayOptions = { ...overlayProps, ov: `${props.when ?? props.ov ?? false}` }
         elements().forEach(element => Object.assign(element.dataset, options))
-        elements().forEach(element => (element.inert = options.ov === 'true'))
+        elements().forEach(element => (element.inert = options.ov === 'true' && !options.ovCancel))
     })
 
     onCleanup(() => record.values().forEach(cleanup => cleanup()))
@@ -90,21 +112,110 @@ export const ShowOverlay = (props: OverlayOptions & { when?: boolean; children?:
     return <>{resolved()}</>
 }
 
+/**
+ * Display a page-level overlay using {@linkcode acquireGlobalOverlay} while enabled.
+ *
+ * Option changes acquire the overlay again before releasing the previous acquisition, so it is never hidden.
+ *
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.when Alternative to {@linkcode OverlayOptions.ov} to mimic {@linkcode Show} (higher priority).
+ */
+export const GlobalOverlay = (props: OverlayOptions & { when?: boolean }) => {
+    const [, overlayProps] = splitProps(props, ['when'])
+    let release: (() => void) | undefined
+
+    createComputed(() => {
+        const previous = release
+        const enabled = props.when ?? props.ov === 'true'
+        release = enabled ? acquireGlobalOverlay({ ...overlayProps }) : undefined
+        previous?.()
+    })
+
+    onCleanup(() => release?.())
+
+    return undefined
+}
+
+/**
+ * Overlay context to notify {@linkcode SuspenseOverlay} descendants that an ancestor boundary is displaying an overlay.
+ */
+export const OverlayContext = createContext((): boolean => false)
+
+/**
+ * SolidJS {@linkcode Suspense}-like wrapper for `injectOverlay`.
+ *
+ * Instead of swapping in a fallback, children stay visible under an overlay while the boundary has pending resources,
+ * or while {@linkcode props.pending} is set, like the `useTransition` pending state of a refetch.
+ * If an ancestor boundary is already displaying an overlay, this boundary does not display its own.
+ *
+ * The wrapper also make {@linkcode children} `inert` while the overlay is enabled, unless it has a cancel button.
+ *
+ * @param props {@linkcode OverlayOptions}.
+ * @param props.pending Display the overlay, for pending transitions.
+ * @param props.children Elements to render, if many, each will have its own overlay.
+ */
+export const SuspenseOverlay = (props: OverlayOptions & { pending?: boolean; children?: JSX.Element }) => {
+    const [, overlayProps] = splitProps(props, ['pending', 'children'])
+    const { injectOverlay } = useContext(LoadToolsContext)
+    const ancestorActive = useContext(OverlayContext)
+    const [currentInFallback, setCurrentInFallback] = createSignal(false)
+    const pending = createMemo(() => currentInFallback() || !!props.pending)
+    const active = createMemo(() => pending() && !ancestorActive())
+
+    const [resolvedChildren, setResolvedChildren] = createSignal<ResolvedChildren>()
+    const elements = createMemo(() => [resolvedChildren()].flat().filter(element => element instanceof HTMLElement))
+
+    const record = new Map<HTMLElement, () => void>()
+
+    createComputed(() => {
+        const exited = [...record.keys()].filter(element => !elements().includes(element))
+        const entered = elements().filter(element => !record.has(element))
+        exited.forEach(element => (record.get(element)!(), record.delete(element)))
+        entered.forEach(element => record.set(element, injectOverlay(element)))
+    })
+
+    createComputed(() => {
+        const options: OverlayOptions = { ...overlayProps, ov: `${active()}` }
+        elements().forEach(element => Object.assign(element.dataset, options))
+        elements().forEach(element => (element.inert = active() && !options.ovCancel))
+    })
+
+    onCleanup(() => record.values().forEach(cleanup => cleanup()))
+
+    const FallbackDetector = () => {
+        onMount(() => setCurrentInFallback(true))
+        onCleanup(() => setCurrentInFallback(false))
+        return undefined
+    }
+
+    return (
+        <OverlayContext.Provider value={() => ancestorActive() || active()}>
+            <Suspense fallback={[<>{resolvedChildren()}</>, FallbackDetector()]}>
+                {setResolvedChildren(children(() => props.children))}
+            </Suspense>
+        </OverlayContext.Provider>
+    )
+}
+
 /**
  * Skeleton context to notify components rendering skeletons.
  */
 export const SkeletonContext = createContext((): boolean => false)
 
 /**
- * SolidJS {@linkcode Show}-like wrapper for {@linkcode injectSkeleton}.
+ * SolidJS {@linkcode Show}-like wrapper for `injectSkeleton`.
  *
- * @param props {@linkcode SkeletonOptions}.
+ * @param props {@linkcode SkeletonOptions} timing options.
  * @param props.when Enable skeletons.
  * @param props.debug Enable skeleton debug mode.
  * @param children Children to render and generate skeletons for.
  */
-export const ShowSkeleton = (props: { when?: boolean; debug?: boolean; children?: JSX.Element }) => {
+export const ShowSkeleton = (
+    props: Pick<SkeletonOptions, 'skDelay' | 'skMin'> & { when?: boolean; debug?: boolean; children?: JSX.Element },
+) => {
+    const [, skeletonProps] = splitProps(props, ['when', 'debug', 'children'])
     const skId = createUniqueId()
+    const { injectSkeleton } = useContext(LoadToolsContext)
     const ancestorInFallback = useContext(SkeletonContext)
     const inFallback = createMemo(() => !!props.when || ancestorInFallback())
 
@@ -120,7 +231,7 @@ export const ShowSkeleton = (props: { when?: boolean; debug?: boolean; children?
     })
 
     createComputed(() => {
-        elements().forEach(element => Object.assign(element.dataset, { skId, sk: `${inFallback()}` }))
+        elements().forEach(element => Object.assign(element.dataset, { ...skeletonProps, skId, sk: `${inFallback()}` }))
         elements().forEach(element => (element.inert = !props.debug && element.dataset.sk === 'true'))
     })
 
@@ -130,7 +241,31 @@ export const ShowSkeleton = (props: { when?: boolean; debug?: boolean; children?
 }
 
 /**
- * SolidJS {@linkcode Suspense}-like wrapper for {@linkcode injectSkeleton}.
+ * Placeholder repetition for lists that are empty while loading, using `[data-sk-repeat]`.
+ *
+ * Children are rendered into a `template`, its content is cloned {@linkcode props.count} times before the template
+ * while the skeleton root displays skeletons. Clones are static copies, they are only used to generate skeletons.
+ *
+ * @param props.count Number of placeholder clones.
+ * @param props.variance Width variance of clones text (ratio 0 to 1).
+ * @param props.children Placeholder item.
+ */
+export const SkeletonFor = (props: { count: number; variance?: number; children?: JSX.Element }) => {
+    const resolved = children(() => props.children)
+    const template = (
+        <template
+            attr:data-sk-repeat={`${props.count}`}
+            attr:data-sk-variance={props.variance !== undefined ? `${props.variance}` : undefined}
+        />
+    ) as HTMLTemplateElement
+
+    createComputed(() => template.content.replaceChildren(...resolved.toArray().filter(node => node instanceof Node)))
+
+    return template
+}
+
+/**
+ * SolidJS {@linkcode Suspense}-like wrapper for `injectSkeleton`.
  *
  * If there are any pending resources and fallback is rendered, skeletons will be injected into child elements.
  * If an ancestor skeleton root is already rendering fallback, children skeletons will also be forced into fallback.
@@ -138,11 +273,16 @@ export const ShowSkeleton = (props: { when?: boolean; debug?: boolean; children?
  * Note that for the skeleton page work properly, the content of the loading page must be stable. Otherwise, the
  * generated skeleton will change together with the loading page content.
  *
+ * @param props {@linkcode SkeletonOptions} timing options.
  * @param props.debug Enable skeleton debug mode.
  * @param props.children Children to render and generate skeletons for.
  */
-export const SuspenseSkeleton = (props: { debug?: boolean; children?: JSX.Element }) => {
+export const SuspenseSkeleton = (
+    props: Pick<SkeletonOptions, 'skDelay' | 'skMin'> & { debug?: boolean; children?: JSX.Element },
+) => {
+    const [, skeletonProps] = splitProps(props, ['debug', 'children'])
     const skId = createUniqueId()
+    const { injectSkeleton } = useContext(LoadToolsContext)
     const ancestorInFallback = useContext(SkeletonContext)
     const [currentInFallback, setCurrentInFallback] = createSignal(false)
     const inFallback = createMemo(() => currentInFallback() || ancestorInFallback())
@@ -153,7 +293,7 @@ export const SuspenseSkeleton = (props: { debug?: boolean; children?: JSX.Elemen
     const record = new Map<HTMLElement, () => void>()
 
     createComputed(() => {
-        elements().forEach(element => Object.assign(element.dataset, { skId, sk: `${inFallback()}` }))
+        elements().forEach(element => Object.assign(element.dataset, { ...skeletonProps, skId, sk: `${inFallback()}` }))
         elements().forEach(element => (element.inert = !props.debug && element.dataset.sk === 'true'))
     })
 
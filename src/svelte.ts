@@ -0,0 +1,25 @@
+import { bindOverlay, bindSkeleton, type OverlayBindingParams, type SkeletonBindingParams } from './bindings.ts'
+
+export type { OverlayBindingParams, SkeletonBindingParams } from './bindings.ts'
+
+/**
+ * Svelte action for `injectSkeleton`, `use:skeleton={loading}` or `use:skeleton={{ when: loading, skDelay: '150' }}`.
+ *
+ * Nested roots are forced into fallback while an ancestor root is in fallback, the element is made `inert` while in
+ * fallback, and skeletons are removed when the element is destroyed.
+ *
+ * @param node Skeleton root element.
+ * @param params {@linkcode SkeletonBindingParams}.
+ */
+export const skeleton = (node: HTMLElement, params: SkeletonBindingParams = false) => bindSkeleton(node, params)
+
+/**
+ * Svelte action for `injectOverlay`, `use:overlay={saving}` or `use:overlay={{ when: saving, ovMessage: 'Saving' }}`.
+ *
+ * The element is made `inert` while the overlay is enabled, unless it has a cancel button, and the overlay is removed
+ * when the element is destroyed.
+ *
+ * @param node Overlay host element.
+ * @param params {@linkcode OverlayBindingParams}.
+ */
+export const overlay = (node: HTMLElement, params: OverlayBindingParams = false) => bindOverlay(node, params)
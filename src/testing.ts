@@ -0,0 +1,388 @@
+import { topLayerOverlays } from './util.ts'
+
+/**
+ * Deterministic layout options of {@linkcode installLayoutStub}.
+ */
+export type LayoutStubOptions = {
+    /** Character width of laid out text (px). Defaults to `8`. */
+    charWidth?: number
+    /** Line height of laid out text (px). Defaults to `16`. */
+    lineHeight?: number
+    /** Viewport size, the document element rect (px). Defaults to `1024x768`. */
+    viewport?: { width: number; height: number }
+    /** Element rect override, return `undefined` to use the stub layout. */
+    rect?: (element: Element) => DOMRectInit | undefined
+}
+
+/**
+ * Installed layout stub state, shared by {@linkcode flushLoadTools}.
+ */
+const stub = {
+    /** Pending animation frame callbacks. */
+    frames: new Map<number, FrameRequestCallback>(),
+    /** Last animation frame id. */
+    frame: 0,
+    /** Connected resize and intersection observers. */
+    observers: new Set<ResizeObserverStub | IntersectionObserverStub>(),
+    /** Resolved layout options, undefined if the stub is not installed. */
+    options: undefined as (Required<Omit<LayoutStubOptions, 'rect'>> & Pick<LayoutStubOptions, 'rect'>) | undefined,
+}
+
+/**
+ * Split {@linkcode text}'s collapsed content into lines of at most {@linkcode width} characters.
+ *
+ * @param text Text node.
+ * @param width Available width (px).
+ */
+const textLines = (text: Text, width: number) => {
+    const { charWidth } = stub.options!
+    const content = text.data.replace(/\s+/g, ' ').trim()
+    const perLine = Math.max(1, Math.floor(width / charWidth))
+    return Array.from({ length: Math.ceil(content.length / perLine) }, (_, index) =>
+        Math.min(perLine, content.length - index * perLine),
+    )
+}
+
+/**
+ * Stub layout of an {@linkcode element}.
+ *
+ * Elements are placed at their parent origin offset by inline `left` and `top`, with inline `width` and `height`.
+ * Width defaults to the parent width, and height to the element own text lines. There is no flow layout, so siblings
+ * overlap unless they are offset. Disconnected and `display: none` elements have an empty rect.
+ *
+ * @param element Element to lay out.
+ */
+const layoutRect = (element: Element): DOMRect => {
+    const { lineHeight, viewport, rect } = stub.options!
+    const override = rect?.(element)
+    if (override) return DOMRect.fromRect(override)
+    if (element === document.documentElement) return new DOMRect(0, 0, viewport.width, viewport.height)
+    if (!element.isConnected || getComputedStyle(element).display === 'none') return new DOMRect()
+    const parent = layoutRect(element.parentElement ?? (element.getRootNode() as ShadowRoot).host)
+    const style = (element as HTMLElement).style ?? {}
+    const px = (value?: string) => (value?.endsWith('px') ? parseFloat(value) : undefined)
+    const width = px(style.width) ?? parent.width
+    const lines = [...element.childNodes].flatMap(node => (node instanceof Text ? textLines(node, width) : []))
+    const height = px(style.height) ?? lines.length * lineHeight
+    return new DOMRect(parent.x + (px(style.left) ?? 0), parent.y + (px(style.top) ?? 0), width, height)
+}
+
+/**
+ * Stub line boxes of a {@linkcode text} node, laid out from its parent origin.
+ *
+ * @param text Text node.
+ */
+const textRects = (text: Text) => {
+    const { charWidth, lineHeight } = stub.options!
+    if (!text.parentElement) return []
+    const parent = layoutRect(text.parentElement)
+    return textLines(text, parent.width).map(
+        (length, index) => new DOMRect(parent.x, parent.y + index * lineHeight, length * charWidth, lineHeight),
+    )
+}
+
+/**
+ * Deterministic {@linkcode ResizeObserver}, notifications are only delivered by {@linkcode flushLoadTools}.
+ *
+ * Like browsers, targets are notified once when observed, and then whenever their stub layout size changes.
+ */
+class ResizeObserverStub {
+    #callback: ResizeObserverCallback
+    #targets = new Map<Element, { width: number; height: number } | undefined>()
+
+    constructor(callback: ResizeObserverCallback) {
+        this.#callback = callback
+    }
+
+    observe(target: Element) {
+        if (!this.#targets.has(target)) this.#targets.set(target, undefined)
+        stub.observers.add(this)
+    }
+
+    unobserve(target: Element) {
+        this.#targets.delete(target)
+    }
+
+    disconnect() {
+        this.#targets.clear()
+        stub.observers.delete(this)
+    }
+
+    /**
+     * Deliver notifications of targets whose size changed, returns if any was delivered.
+     */
+    deliver() {
+        const entries = [...this.#targets].flatMap(([target, previous]) => {
+            const rect = target.getBoundingClientRect()
+            if (previous && previous.width === rect.width && previous.height === rect.height) return []
+            this.#targets.set(target, { width: rect.width, height: rect.height })
+            const size = [{ inlineSize: rect.width, blockSize: rect.height }]
+            const contentRect = new DOMRect(0, 0, rect.width, rect.height)
+            return [{ target, contentRect, borderBoxSize: size, contentBoxSize: size, devicePixelContentBoxSize: size }]
+        })
+        if (entries.length) this.#callback(entries, this)
+        return entries.length > 0
+    }
+}
+
+/**
+ * Deterministic {@linkcode IntersectionObserver}, notifications are only delivered by {@linkcode flushLoadTools}.
+ *
+ * Targets intersect if their stub layout rect intersects the viewport expanded by `rootMargin`, `px` and `%` margins
+ * are supported. Like browsers, targets are notified once when observed, and then whenever they start or stop
+ * intersecting. The `root` option is ignored.
+ */
+class IntersectionObserverStub {
+    #callback: IntersectionObserverCallback
+    #targets = new Map<Element, boolean | undefined>()
+    readonly root = null
+    readonly rootMargin: string
+    readonly thresholds = [0]
+
+    constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+        this.#callback = callback
+        this.rootMargin = options?.rootMargin ?? '0px'
+    }
+
+    observe(target: Element) {
+        if (!this.#targets.has(target)) this.#targets.set(target, undefined)
+        stub.observers.add(this)
+    }
+
+    unobserve(target: Element) {
+        this.#targets.delete(target)
+    }
+
+    disconnect() {
+        this.#targets.clear()
+        stub.observers.delete(this)
+    }
+
+    takeRecords() {
+        return []
+    }
+
+    /**
+     * Deliver notifications of targets whose intersection changed, returns if any was delivered.
+     */
+    deliver() {
+        const { width, height } = stub.options!.viewport
+        const values = this.rootMargin.trim().split(/\s+/)
+        const [top, right = top, bottom = top, left = right] = values.map((value, index) =>
+            value.endsWith('%') ? (parseFloat(value) / 100) * (index % 2 ? width : height) : parseFloat(value),
+        )
+        const rootBounds = new DOMRect(-left, -top, width + left + right, height + top + bottom)
+        const entries = [...this.#targets].flatMap(([target, previous]) => {
+            const rect = target.getBoundingClientRect()
+            const isIntersecting =
+                rect.right >= rootBounds.left &&
+                rect.left <= rootBounds.right &&
+                rect.bottom >= rootBounds.top &&
+                rect.top <= rootBounds.bottom
+            if (previous === isIntersecting) return []
+            this.#targets.set(target, isIntersecting)
+            const intersectionRatio = +isIntersecting
+            const time = performance.now()
+            const boundingClientRect = rect
+            const intersectionRect = isIntersecting ? rect : new DOMRect()
+            return [
+                { target, isIntersecting, intersectionRatio, boundingClientRect, intersectionRect, rootBounds, time },
+            ]
+        })
+        if (entries.length) this.#callback(entries, this)
+        return entries.length > 0
+    }
+}
+
+/**
+ * Web animation stub, finished as soon as it is created.
+ */
+const animationStub = (animations: Set<Animation>) => {
+    const animation = {
+        startTime: null,
+        currentTime: null,
+        playState: 'finished',
+        cancel: () => void animations.delete(animation),
+        finish: () => {},
+        play: () => {},
+        pause: () => {},
+    } as Partial<Animation> as Animation
+    animations.add(Object.assign(animation, { finished: Promise.resolve(animation) }))
+    return animation
+}
+
+/**
+ * Install a deterministic layout stub for environments without layout, like `happy-dom` or `jsdom`.
+ *
+ * Stubbed APIs:
+ * - `Element.getBoundingClientRect` and `Element.getClientRects`: Stub layout, see {@linkcode LayoutStubOptions}.
+ * - `Range.getClientRects` and `Range.getBoundingClientRect`: Line boxes of the intersected text nodes, each text
+ *   node is laid out from its parent origin, wrapping at the parent width.
+ * - `ResizeObserver` and `IntersectionObserver`: Notifications are delivered by {@linkcode flushLoadTools}, the
+ *   viewport is the intersection root.
+ * - `requestAnimationFrame` and `cancelAnimationFrame`: Frames are run by {@linkcode flushLoadTools}.
+ * - `CustomEvent`: The document window event class, runtimes like Node define their own, which DOM libraries reject.
+ *
+ * Web animations, `document.timeline`, `document.adoptedStyleSheets` and `matchMedia` are also stubbed if missing,
+ * animations finish immediately and no media query matches.
+ *
+ * A cleanup function is returned to restore the original APIs.
+ *
+ * @param options Layout options.
+ */
+export const installLayoutStub = (options: LayoutStubOptions = {}) => {
+    const { charWidth = 8, lineHeight = 16, viewport = { width: 1024, height: 768 }, rect } = options
+    const globals = {
+        ResizeObserver: globalThis.ResizeObserver,
+        IntersectionObserver: globalThis.IntersectionObserver,
+        requestAnimationFrame: globalThis.requestAnimationFrame,
+        cancelAnimationFrame: globalThis.cancelAnimationFrame,
+        CustomEvent: globalThis.CustomEvent,
+    }
+    const element = {
+        getBoundingClientRect: Element.prototype.getBoundingClientRect,
+        getClientRects: Element.prototype.getClientRects,
+    }
+    const range = {
+        getBoundingClientRect: Range.prototype.getBoundingClientRect,
+        getClientRects: Range.prototype.getClientRects,
+    }
+    const missing = {
+        animate: !Element.prototype.animate,
+        timeline: !document.timeline,
+        adoptedStyleSheets: !document.adoptedStyleSheets,
+        matchMedia: !globalThis.matchMedia,
+    }
+    stub.options = { charWidth, lineHeight, viewport, rect }
+
+    const rangeRects = (range: Range) => {
+        const root = range.commonAncestorContainer
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+        const texts: Text[] = root instanceof Text ? [root] : []
+        for (let node = walker.nextNode(); node; node = walker.nextNode()) texts.push(node as Text)
+        return texts.filter(text => range.intersectsNode(text)).flatMap(textRects)
+    }
+
+    Object.assign(globalThis, {
+        ResizeObserver: ResizeObserverStub,
+        IntersectionObserver: IntersectionObserverStub,
+        requestAnimationFrame: (callback: FrameRequestCallback) => (
+            stub.frames.set(++stub.frame, callback),
+            stub.frame
+        ),
+        cancelAnimationFrame: (id: number) => stub.frames.delete(id),
+        CustomEvent: document.defaultView?.CustomEvent ?? globalThis.CustomEvent,
+    })
+    Element.prototype.getBoundingClientRect = function (this: Element) {
+        return layoutRect(this)
+    }
+    Element.prototype.getClientRects = function (this: Element) {
+        return [layoutRect(this)] as unknown as DOMRectList
+    }
+    Range.prototype.getClientRects = function (this: Range) {
+        return rangeRects(this) as unknown as DOMRectList
+    }
+    Range.prototype.getBoundingClientRect = function (this: Range) {
+        const rects = rangeRects(this)
+        if (!rects.length) return new DOMRect()
+        const left = Math.min(...rects.map(rect => rect.left))
+        const top = Math.min(...rects.map(rect => rect.top))
+        const right = Math.max(...rects.map(rect => rect.right))
+        const bottom = Math.max(...rects.map(rect => rect.bottom))
+        return new DOMRect(left, top, right - left, bottom - top)
+    }
+
+    if (missing.animate) {
+        const animations = new WeakMap<Element, Set<Animation>>()
+        const of = (element: Element) => animations.get(element) ?? animations.set(element, new Set()).get(element)!
+        Element.prototype.animate = function (this: Element) {
+            return animationStub(of(this))
+        }
+        Element.prototype.getAnimations = function (this: Element) {
+            return [...of(this)]
+        }
+    }
+    if (missing.timeline) Object.defineProperty(document, 'timeline', { value: { currentTime: 0 }, configurable: true })
+    if (missing.adoptedStyleSheets)
+        Object.defineProperty(document, 'adoptedStyleSheets', { value: [], writable: true, configurable: true })
+    if (missing.matchMedia)
+        globalThis.matchMedia = (media: string) =>
+            ({ media, matches: false, addEventListener: () => {}, removeEventListener: () => {} }) as never
+
+    return () => {
+        if (missing.animate) Reflect.deleteProperty(Element.prototype, 'animate')
+        if (missing.animate) Reflect.deleteProperty(Element.prototype, 'getAnimations')
+        if (missing.timeline) Reflect.deleteProperty(document, 'timeline')
+        if (missing.adoptedStyleSheets) Reflect.deleteProperty(document, 'adoptedStyleSheets')
+        if (missing.matchMedia) Reflect.deleteProperty(globalThis, 'matchMedia')
+        Object.assign(globalThis, globals)
+        Object.assign(Element.prototype, element)
+        Object.assign(Range.prototype, range)
+        stub.frames.clear()
+        stub.observers.clear()
+        stub.options = undefined
+    }
+}
+
+/**
+ * Run pending load tools work until it settles: mutation observers, animation frames, and resize and intersection
+ * notifications.
+ *
+ * Requires {@linkcode installLayoutStub}. Timers, like `[data-sk-delay]` and `[data-ov-min]`, are not advanced.
+ *
+ * @param limit Maximum number of rounds, guards against layouts that never settle.
+ */
+export const flushLoadTools = async (limit = 100) => {
+    if (!stub.options) throw new Error('flushLoadTools requires installLayoutStub')
+    for (let round = 0; round < limit; round++) {
+        await new Promise(resolve => setTimeout(resolve))
+        const frames = [...stub.frames.values()]
+        stub.frames.clear()
+        frames.forEach(callback => callback(performance.now()))
+        const delivered = [...stub.observers].map(observer => observer.deliver()).some(Boolean)
+        if (!frames.length && !delivered) return
+    }
+}
+
+/**
+ * Get the skeletons of a {@linkcode root} element, as rects relative to the root.
+ *
+ * Rects are read from the skeletons layout properties, before `[data-sk-tx]`, `[data-sk-ty]` and scale are applied.
+ * Skeletons hosted by nested scroll containers are included, offset by their host position, skeletons of nested roots
+ * are not.
+ *
+ * @param root Skeleton root element.
+ */
+export const getSkeletonRects = (root: Element) => {
+    const container = root.getBoundingClientRect()
+    return [...root.querySelectorAll<HTMLElement>('[data-sk-t="none"][aria-hidden="true"]')]
+        .filter(skeleton => {
+            const owner = skeleton.parentElement!.closest('[data-sk]')
+            return !owner || owner === root || owner.contains(root)
+        })
+        .map(skeleton => {
+            const host = skeleton.parentElement!
+            const [x, y, width, height] = [
+                skeleton.style.left,
+                skeleton.style.top,
+                skeleton.style.width,
+                skeleton.style.height,
+            ].map(value => parseFloat(value.replace(/^calc\(/, '')))
+            if (host === root) return new DOMRect(x, y, width, height)
+            const origin = host.getBoundingClientRect()
+            const offsetX = origin.x - container.x + host.clientLeft - host.scrollLeft
+            const offsetY = origin.y - container.y + host.clientTop - host.scrollTop
+            return new DOMRect(x + offsetX, y + offsetY, width, height)
+        })
+}
+
+/**
+ * Check if {@linkcode element} is displaying an overlay, overlays fading out are not active.
+ *
+ * Top layer overlays, see `[data-ov-layer]`, are found through their host, as they are not its children.
+ *
+ * @param element Overlay host element.
+ */
+export const isOverlayActive = (element: Element) =>
+    !!element.querySelector(':scope > [data-ov-state="active"]') ||
+    topLayerOverlays.get(element)?.dataset.ovState === 'active'
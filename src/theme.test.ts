@@ -0,0 +1,25 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { installLayoutStub } from './testing.ts'
+import { adoptTheme, setThemeConfiguration, themeVar } from './theme.ts'
+
+describe('theme', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => uninstall())
+
+    it('adopts the stylesheet once', () => {
+        adoptTheme()
+        adoptTheme()
+        assert.equal(document.adoptedStyleSheets.length, 1)
+    })
+
+    it('references properties with the light preset as fallback', () => {
+        assert.equal(themeVar('--sk-radius-m'), 'var(--sk-radius-m, 8px)')
+        setThemeConfiguration({ light: { '--sk-radius-m': '6px' } })
+        assert.equal(themeVar('--sk-radius-m'), 'var(--sk-radius-m, 6px)')
+        setThemeConfiguration({ light: { '--sk-radius-m': '8px' } })
+    })
+})
@@ -0,0 +1,123 @@
+/**
+ * Theme custom properties read by the default skeleton and overlay factories.
+ */
+export type ThemeProperties = {
+    /** Skeleton background color. */
+    '--sk-color'?: string
+    /** Skeleton `wave` animation highlight color. */
+    '--sk-highlight'?: string
+    /** Radius of `text` skeletons. */
+    '--sk-radius-text'?: string
+    /** Radius of `pill` and `button` skeletons. */
+    '--sk-radius-pill'?: string
+    /** Radius of `input` skeletons. */
+    '--sk-radius-input'?: string
+    /** Radius of `icon` skeletons. */
+    '--sk-radius-icon'?: string
+    /** Radius of `round` and `media` skeletons with `xs` roundness. */
+    '--sk-radius-xs'?: string
+    /** Radius of `round` and `media` skeletons with `s` roundness. */
+    '--sk-radius-s'?: string
+    /** Radius of `round` and `media` skeletons with `m` roundness. */
+    '--sk-radius-m'?: string
+    /** Radius of `round` and `media` skeletons with `l` roundness. */
+    '--sk-radius-l'?: string
+    /** Radius of `round` and `media` skeletons with `xl` roundness. */
+    '--sk-radius-xl'?: string
+    /** Overlay backdrop color. */
+    '--ov-backdrop'?: string
+    /** Overlay message color. */
+    '--ov-color'?: string
+    /** Overlay spinner color. */
+    '--ov-spinner-color'?: string
+}
+
+/**
+ * Module configuration, includes the light and dark theme presets.
+ */
+const configuration = {
+    /** Light preset, also used as fallback values if the stylesheet is not adopted. */
+    light: {
+        '--sk-color': '#DCE2E5',
+        '--sk-highlight': '#FFFFFF80',
+        '--sk-radius-text': '0.4lh',
+        '--sk-radius-pill': '1000px',
+        '--sk-radius-input': '4px',
+        '--sk-radius-icon': '4px',
+        '--sk-radius-xs': '2px',
+        '--sk-radius-s': '4px',
+        '--sk-radius-m': '8px',
+        '--sk-radius-l': '12px',
+        '--sk-radius-xl': '16px',
+        '--ov-backdrop': '#FFFFFFC0',
+        '--ov-color': '#1A2126',
+        '--ov-spinner-color': '#1A2126',
+    } as Required<ThemeProperties>,
+    /** Dark preset, only colors are overridden by default. */
+    dark: {
+        '--sk-color': '#2B3338',
+        '--sk-highlight': '#FFFFFF1A',
+        '--ov-backdrop': '#11161AC0',
+        '--ov-color': '#E6EBEE',
+        '--ov-spinner-color': '#E6EBEE',
+    } as ThemeProperties,
+}
+
+/**
+ * Theme stylesheet, created and adopted once by {@linkcode adoptTheme}.
+ */
+let stylesheet: CSSStyleSheet | undefined
+
+/**
+ * Render the theme stylesheet rules from the current {@linkcode configuration}.
+ *
+ * Rules live in the `load-tools` cascade layer, so any unlayered author style overrides them.
+ */
+const renderTheme = () => {
+    const declarations = (properties: ThemeProperties) =>
+        Object.entries(properties)
+            .map(([property, value]) => `${property}: ${value};`)
+            .join(' ')
+    const light = declarations(configuration.light)
+    const dark = declarations(configuration.dark)
+    stylesheet!.replaceSync(`@layer load-tools {
+        :root { ${light} }
+        @media (prefers-color-scheme: dark) { :root { ${dark} } }
+        [data-load-theme="light"] { ${light} }
+        [data-load-theme="dark"] { ${dark} }
+    }`)
+}
+
+/**
+ * Set module {@linkcode configuration}, the adopted stylesheet is updated in place.
+ *
+ * @param overrides Preset properties to override.
+ */
+export const setThemeConfiguration = (overrides: Partial<typeof configuration>) => {
+    Object.assign(configuration.light, overrides.light)
+    Object.assign(configuration.dark, overrides.dark)
+    if (stylesheet) renderTheme()
+}
+
+/**
+ * Adopt the theme stylesheet into the document, documents that already adopted it are skipped.
+ *
+ * Presets are defined on `:root` following `prefers-color-scheme`, and can be forced for a subtree with
+ * `[data-load-theme="light"]` or `[data-load-theme="dark"]`. Any theme property can also be overridden for a subtree,
+ * as custom properties are inherited, including into shadow roots.
+ *
+ * It is called by skeleton and overlay injections, so it only needs to be called to theme server rendered snapshots.
+ */
+export const adoptTheme = () => {
+    if (stylesheet && document.adoptedStyleSheets.includes(stylesheet)) return
+    stylesheet ??= new CSSStyleSheet()
+    renderTheme()
+    document.adoptedStyleSheets = [...document.adoptedStyleSheets, stylesheet]
+}
+
+/**
+ * Reference a theme {@linkcode property} using the light preset value as fallback, for custom factories.
+ *
+ * @param property Theme property.
+ */
+export const themeVar = (property: keyof ThemeProperties) => `var(${property}, ${configuration.light[property]})`
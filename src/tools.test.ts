@@ -0,0 +1,37 @@
+import 'global-jsdom/register'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { injectSkeleton } from './skeleton.ts'
+import { flushLoadTools, getSkeletonRects, installLayoutStub } from './testing.ts'
+import { createLoadTools } from './tools.ts'
+
+describe('tools', () => {
+    let uninstall: () => void
+
+    beforeEach(() => (uninstall = installLayoutStub()))
+    afterEach(() => (uninstall(), (document.body.innerHTML = '')))
+
+    it('isolates instance configurations from the module configuration', async () => {
+        document.body.innerHTML = `
+            <div id="scoped" data-sk="true" style="width: 80px">
+                <button style="height: 20px">Save</button>
+                <p style="top: 40px">Text</p>
+            </div>
+            <div id="module" data-sk="true" style="width: 80px"><button style="height: 20px">Save</button></div>
+        `
+        const tools = createLoadTools({ skeleton: { elements: { button: { skT: 'none' } } } })
+        tools.setSkeletonConfiguration({
+            factory: () => Object.assign(document.createElement('div'), { className: 'scoped' }),
+        })
+        const scoped = document.querySelector<HTMLElement>('#scoped')!
+        const module = document.querySelector<HTMLElement>('#module')!
+        const cleanups = [tools.injectSkeleton(scoped), injectSkeleton(module)]
+        await flushLoadTools()
+
+        assert.deepEqual(getSkeletonRects(scoped), [new DOMRect(0, 40, 32, 16)])
+        assert.ok(scoped.querySelector(':scope > .scoped'))
+        assert.deepEqual(getSkeletonRects(module), [new DOMRect(0, 0, 80, 20)])
+        assert.equal(module.querySelector('.scoped'), null)
+        cleanups.forEach(cleanup => cleanup())
+    })
+})
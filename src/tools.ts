@@ -0,0 +1,42 @@
+import { createOverlayTools, injectOverlay, type OverlayConfiguration, setOverlayConfiguration } from './overlay.ts'
+import {
+    captureSkeleton,
+    createSkeletonTools,
+    injectSkeleton,
+    replaySkeleton,
+    setSkeletonConfiguration,
+    type SkeletonConfiguration,
+} from './skeleton.ts'
+
+/**
+ * Load tools instance, see {@linkcode createLoadTools}.
+ */
+export type LoadTools = ReturnType<typeof createSkeletonTools> & ReturnType<typeof createOverlayTools>
+
+/**
+ * Create an isolated load tools instance, with its own skeleton and overlay configurations.
+ *
+ * Instances do not share factories or defaults with the module configuration or other instances, so independent apps
+ * on the same page, or differently configured sections, do not override each other. The module exports, like
+ * `injectSkeleton` and `setSkeletonConfiguration`, are the default instance, see {@linkcode defaultLoadTools}.
+ *
+ * Theme properties are not part of instances, they are scoped through css custom properties, see `adoptTheme`.
+ *
+ * @param config.skeleton Skeleton configuration parts to override, see `setSkeletonConfiguration`.
+ * @param config.overlay Overlay configuration parts to override, see `setOverlayConfiguration`.
+ */
+export const createLoadTools = (
+    config: { skeleton?: Partial<SkeletonConfiguration>; overlay?: Partial<OverlayConfiguration> } = {},
+): LoadTools => ({ ...createSkeletonTools(config.skeleton), ...createOverlayTools(config.overlay) })
+
+/**
+ * Default load tools instance, backed by the module configuration.
+ */
+export const defaultLoadTools: LoadTools = {
+    setSkeletonConfiguration,
+    injectSkeleton,
+    captureSkeleton,
+    replaySkeleton,
+    setOverlayConfiguration,
+    injectOverlay,
+}
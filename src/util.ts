@@ -1,4 +1,4 @@
-import { KebabCase } from 'type-fest'
+import type { KebabCase } from 'type-fest'
 
 declare global {
     interface CSSStyleDeclaration {
@@ -6,6 +6,10 @@ declare global {
         positionAnchor?: string
         positionArea?: string
     }
+
+    interface HTMLElement {
+        showPopover(options?: { source?: HTMLElement }): void
+    }
 }
 
 type CssAbsoluteUnits = 'px' | 'cm' | 'mm' | 'Q' | 'in' | 'pc' | 'pt'
@@ -21,12 +25,232 @@ export type CssLength = `${number}${CssAbsoluteUnits | CssFontUnits | CssViewpor
 /**
  * Convert `dataset` options to html `data-` attributes.
  *
- * `attr:` prefix is enforced to avoid issues with custom elements.
+ * `attr:` prefix is enforced by default to avoid issues with custom elements, frameworks that set attributes directly
+ * can use an empty {@linkcode TPrefix}.
  *
  * @param TOptions Dataset options.
+ * @param TPrefix Attribute prefix.
+ */
+export type OptionsToAttributes<TOptions extends object, TPrefix extends string = 'attr:'> = {
+    [K in keyof TOptions as `${TPrefix}data-${KebabCase<K & string>}`]?: TOptions[K]
+} & (TPrefix extends ''
+    ? {}
+    : {
+          [K in keyof TOptions as `data-${KebabCase<K & string>}`]?: never
+      })
+
+/**
+ * Create a loading state machine that prevents flickering when toggling loading states.
+ *
+ * Showing is delayed by `delay`, and once shown, hiding is held until `min` time has passed. Toggling back before the
+ * delay or the hold elapse cancels the pending transition, so {@linkcode show} and {@linkcode hide} are always called
+ * alternately, starting with {@linkcode show}.
+ *
+ * @param show Show loading state callback.
+ * @param hide Hide loading state callback.
  */
-export type OptionsToAttributes<TOptions extends object> = {
-    [K in keyof TOptions as `attr:data-${KebabCase<K & string>}`]?: TOptions[K]
-} & {
-    [K in keyof TOptions as `data-${KebabCase<K & string>}`]?: never
+export const createLoadingState = (show: () => void, hide: () => void) => {
+    let state: 'idle' | 'pending' | 'shown' | 'holding' = 'idle'
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    let shownAt = 0
+
+    const enter = () => {
+        state = 'shown'
+        shownAt = performance.now()
+        show()
+    }
+
+    const leave = () => {
+        state = 'idle'
+        hide()
+    }
+
+    return {
+        /**
+         * Request a loading state change.
+         *
+         * @param loading Requested loading state.
+         * @param delay Show delay (ms).
+         * @param min Minimum display time (ms).
+         */
+        set: (loading: boolean, delay: number, min: number) => {
+            if (loading && state === 'idle' && delay > 0) {
+                state = 'pending'
+                timeout = setTimeout(enter, delay)
+            } else if (loading && state === 'idle') {
+                enter()
+            } else if (loading && state === 'holding') {
+                clearTimeout(timeout)
+                state = 'shown'
+            } else if (!loading && state === 'pending') {
+                clearTimeout(timeout)
+                state = 'idle'
+            } else if (!loading && state === 'shown') {
+                const remaining = min - (performance.now() - shownAt)
+                if (remaining <= 0) return leave()
+                state = 'holding'
+                timeout = setTimeout(leave, remaining)
+            }
+        },
+        /**
+         * Cancel pending transitions and return to idle without calling {@linkcode hide}.
+         */
+        reset: () => {
+            clearTimeout(timeout)
+            state = 'idle'
+        },
+    }
+}
+
+/**
+ * Check if the user prefers reduced motion, default factories must not animate if so.
+ */
+export const prefersReducedMotion = () => matchMedia('(prefers-reduced-motion: reduce)').matches
+
+/**
+ * Css custom properties registered by {@linkcode readCssOptions}.
+ */
+const registeredProperties = new Set<string>()
+
+/**
+ * Read {@linkcode options} of {@linkcode element} set through css custom properties, like `--sk-sx` for `skSx`.
+ *
+ * Properties are registered as not inherited where `CSS.registerProperty` is supported, so options only apply to the
+ * elements matched by the rules setting them, like data attributes. Empty properties are skipped.
+ *
+ * Registration is a page-wide side effect, done once per property when it is first read. Properties already
+ * registered by the app are kept as is, while registering them afterwards throws, so apps that register `--sk-*` or
+ * `--ov-*` properties must do it before any skeleton or overlay is injected.
+ *
+ * @param element Element to read options from.
+ * @param options Option names readable from css.
+ */
+export const readCssOptions = <TOptions>(element: Element, options: readonly (keyof TOptions & string)[]) => {
+    const style = getComputedStyle(element)
+    const entries = options.flatMap(option => {
+        const property = `--${option.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)}`
+        if (!registeredProperties.has(property)) {
+            registeredProperties.add(property)
+            try {
+                globalThis.CSS?.registerProperty?.({ name: property, syntax: '*', inherits: false })
+            } catch {}
+        }
+        const value = style.getPropertyValue(property).trim()
+        return value ? [[option, value]] : []
+    })
+    return Object.fromEntries(entries) as Partial<TOptions>
+}
+
+/**
+ * Top layer overlays of each overlay host, top layer overlays are appended to `document.body` instead of the host.
+ */
+export const topLayerOverlays = new WeakMap<Element, HTMLElement>()
+
+/**
+ * Shared polite live region used by {@linkcode announce}.
+ */
+let liveRegion: HTMLElement | undefined
+
+/**
+ * Announce {@linkcode text} to assistive technologies through a shared visually hidden polite live region.
+ *
+ * @param text Text to announce, nothing is announced if empty.
+ */
+export const announce = (text?: string) => {
+    if (!text) return
+    if (!liveRegion?.isConnected) {
+        liveRegion = document.createElement('div')
+        liveRegion.role = 'status'
+        liveRegion.ariaLive = 'polite'
+        liveRegion.style.position = 'absolute'
+        liveRegion.style.width = '1px'
+        liveRegion.style.height = '1px'
+        liveRegion.style.overflow = 'hidden'
+        liveRegion.style.clipPath = 'inset(50%)'
+        liveRegion.style.whiteSpace = 'nowrap'
+        document.body.append(liveRegion)
+    }
+    const region = liveRegion
+    region.textContent = ''
+    requestAnimationFrame(() => (region.textContent = text))
+}
+
+/**
+ * Check if {@linkcode element} is the shared live region of {@linkcode announce}, which must never be made `inert`.
+ *
+ * @param element Element to check.
+ */
+export const isLiveRegion = (element: Element) => element === liveRegion
+
+/**
+ * Loading lifecycle event detail.
+ */
+export type LoadingEventDetail<TOptions> = {
+    /** Skeleton subtree ID of the element (`data-sk-id`), or `default`. */
+    skId: string
+    /** Element's resolved options. */
+    options: TOptions
+    /** Time the loading state was displayed (ms), only set when it is hidden. */
+    duration?: number
+}
+
+/**
+ * Aggregated loading statistics of a loading kind.
+ */
+export type LoadingStats = {
+    /** Loading states currently displayed. */
+    active: number
+    /** Completed loading states. */
+    count: number
+    /** Total display time of completed loading states (ms). */
+    total: number
+    /** Longest display time of completed loading states (ms). */
+    max: number
+}
+
+/**
+ * Loading statistics of each skeleton subtree ID, skeletons (`sk`) and overlays (`ov`).
+ */
+export const loadingStats = new Map<string, { sk: LoadingStats; ov: LoadingStats }>()
+
+/**
+ * Track a displayed loading state of {@linkcode element}: dispatch its lifecycle events, aggregate its statistics,
+ * and optionally emit User Timing marks and measures.
+ *
+ * Events are dispatched as bubbling {@linkcode CustomEvent}s, `sk:inject` and `sk:eject` for skeletons, `ov:show`
+ * and `ov:hide` for overlays. A function is returned to track the loading state end.
+ *
+ * @param element Element displaying the loading state.
+ * @param kind Loading kind.
+ * @param options Element's resolved options.
+ * @param metrics Emit `performance.mark` and `performance.measure` entries.
+ */
+export const trackLoading = <TOptions>(
+    element: HTMLElement,
+    kind: 'sk' | 'ov',
+    options: TOptions,
+    metrics: boolean,
+) => {
+    const [start, end] = kind === 'sk' ? ['sk:inject', 'sk:eject'] : ['ov:show', 'ov:hide']
+    const skId = element.dataset.skId ?? 'default'
+    const empty = () => ({ active: 0, count: 0, total: 0, max: 0 })
+    const stats = loadingStats.get(skId) ?? loadingStats.set(skId, { sk: empty(), ov: empty() }).get(skId)!
+    const startTime = performance.now()
+    const startDetail: LoadingEventDetail<TOptions> = { skId, options }
+    stats[kind].active++
+    element.dispatchEvent(new CustomEvent(start, { bubbles: true, detail: startDetail }))
+    if (metrics) performance.mark(start, { detail: { skId } })
+
+    return (options: TOptions) => {
+        const duration = performance.now() - startTime
+        const endDetail: LoadingEventDetail<TOptions> = { skId, options, duration }
+        stats[kind].active--
+        stats[kind].count++
+        stats[kind].total += duration
+        stats[kind].max = Math.max(stats[kind].max, duration)
+        element.dispatchEvent(new CustomEvent(end, { bubbles: true, detail: endDetail }))
+        if (!metrics) return
+        performance.mark(end, { detail: { skId } })
+        performance.measure(`${kind}:${skId}`, { start: startTime, duration, detail: { skId } })
+    }
 }
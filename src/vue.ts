@@ -0,0 +1,40 @@
+import { bindOverlay, bindSkeleton, type OverlayBindingParams, type SkeletonBindingParams } from './bindings.ts'
+
+export type { OverlayBindingParams, SkeletonBindingParams } from './bindings.ts'
+
+/**
+ * Create a Vue directive from a {@linkcode bind} function, bindings are kept per element.
+ *
+ * @param bind Binding function, returns an object to update the parameters and to destroy the binding.
+ */
+const createDirective = <TParams>(
+    bind: (element: HTMLElement, params: TParams) => { update: (params: TParams) => void; destroy: () => void },
+) => {
+    const bindings = new WeakMap<HTMLElement, ReturnType<typeof bind>>()
+    return {
+        mounted: (element: HTMLElement, binding: { value: TParams }) =>
+            void bindings.set(element, bind(element, binding.value)),
+        updated: (element: HTMLElement, binding: { value: TParams }) => bindings.get(element)?.update(binding.value),
+        unmounted: (element: HTMLElement) => (bindings.get(element)?.destroy(), bindings.delete(element)),
+    }
+}
+
+/**
+ * Vue directive for `injectSkeleton`, `v-skeleton="loading"` or `v-skeleton="{ when: loading, skDelay: '150' }"`.
+ *
+ * Nested roots are forced into fallback while an ancestor root is in fallback, the element is made `inert` while in
+ * fallback, and skeletons are removed when the element is unmounted.
+ *
+ * Register it with `app.directive('skeleton', vSkeleton)`, or import it into `<script setup>`.
+ */
+export const vSkeleton = createDirective<SkeletonBindingParams>(bindSkeleton)
+
+/**
+ * Vue directive for `injectOverlay`, `v-overlay="saving"` or `v-overlay="{ when: saving, ovMessage: 'Saving' }"`.
+ *
+ * The element is made `inert` while the overlay is enabled, unless it has a cancel button, and the overlay is removed
+ * when the element is unmounted.
+ *
+ * Register it with `app.directive('overlay', vOverlay)`, or import it into `<script setup>`.
+ */
+export const vOverlay = createDirective<OverlayBindingParams>(bindOverlay)
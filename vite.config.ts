@@ -3,8 +3,19 @@ import solid from 'vite-plugin-solid'
 
 export default defineConfig({
     build: {
-        lib: { entry: ['./src/index.ts', './src/solid.tsx'], formats: ['es'] },
-        rollupOptions: { external: ['solid-js', 'solid-js/web'] },
+        lib: {
+            entry: [
+                './src/index.ts',
+                './src/elements.ts',
+                './src/react.ts',
+                './src/solid.tsx',
+                './src/svelte.ts',
+                './src/vue.ts',
+                './src/testing.ts',
+            ],
+            formats: ['es'],
+        },
+        rollupOptions: { external: ['react', 'solid-js', 'solid-js/web'] },
         minify: false,
     },
     plugins: [solid()],